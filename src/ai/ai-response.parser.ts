@@ -0,0 +1,171 @@
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+import { CardDifficulty } from '../game/entities/card.entity';
+
+const DIFFICULTIES: CardDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * An AI-generated item that did not pass validation
+ */
+export interface RejectedPair {
+  /**
+   * The raw item as returned by the model
+   */
+  item: unknown;
+
+  /**
+   * Why the item was rejected
+   */
+  reason: string;
+}
+
+/**
+ * Extracts the JSON array of pairs from a model reply. Tolerates markdown
+ * fences, surrounding prose and an object wrapping the array.
+ * @param raw - Text of the model's reply
+ * @returns The items of the array
+ * @throws Error if no JSON array can be found
+ */
+export function extractJsonArray(raw: string): unknown[] {
+  const text = (raw ?? '')
+    .replace(/```[a-zA-Z]*\s*/g, '')
+    .replace(/```/g, '')
+    .trim();
+
+  const candidates = [text];
+  const start = text.indexOf('[');
+  const end = text.lastIndexOf(']');
+  if (start !== -1 && end > start) {
+    candidates.push(text.slice(start, end + 1));
+  }
+
+  for (const candidate of candidates) {
+    try {
+      const parsed = JSON.parse(candidate);
+      if (Array.isArray(parsed)) return parsed;
+
+      const wrapped = Object.values(parsed ?? {}).find(Array.isArray);
+      if (wrapped) return wrapped as unknown[];
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  throw new Error('No JSON array found in AI response');
+}
+
+/**
+ * Validates AI-generated items and normalizes the ones worth keeping
+ * @param items - Items parsed from the model reply
+ * @param existing - Pairs already accepted, used to reject duplicates
+ * @returns Valid pairs and the rejected items with reasons
+ */
+export function validateAiPairs(
+  items: unknown[],
+  existing: BoardPair[] = [],
+): { valid: BoardPair[]; rejected: RejectedPair[] } {
+  const valid: BoardPair[] = [];
+  const rejected: RejectedPair[] = [];
+  const bugs = new Set(existing.map((pair) => normalizeText(pair.bug.title)));
+  const solutions = new Set(
+    existing.map((pair) => normalizeText(pair.solution.description)),
+  );
+
+  items.forEach((item) => {
+    const reason = findProblem(item, bugs, solutions);
+    if (reason) {
+      rejected.push({ item, reason });
+      return;
+    }
+
+    const candidate = item as Record<string, any>;
+    const pair: BoardPair = {
+      bug: {
+        title: candidate.bug.title.trim(),
+        description: optionalText(candidate.bug.description) ?? '',
+      },
+      solution: {
+        description: candidate.solution.description.trim(),
+        code: optionalText(candidate.solution.code),
+        explanation: candidate.solution.explanation.trim(),
+      },
+      difficulty: String(candidate.difficulty).toLowerCase() as CardDifficulty,
+      category: toCategory(candidate.category),
+    };
+
+    bugs.add(normalizeText(pair.bug.title));
+    solutions.add(normalizeText(pair.solution.description));
+    valid.push(pair);
+  });
+
+  return { valid, rejected };
+}
+
+/**
+ * Maps a category named by the AI onto a known category
+ * @param value - Category as returned by the model
+ * @returns The matching category, or GENERAL if unknown
+ */
+export function toCategory(value: unknown): BugCategory {
+  const category = String(value ?? '').toUpperCase() as BugCategory;
+  return Object.values(BugCategory).includes(category)
+    ? category
+    : BugCategory.GENERAL;
+}
+
+/**
+ * Finds the first reason an item cannot be used as a pair
+ */
+function findProblem(
+  item: unknown,
+  bugs: Set<string>,
+  solutions: Set<string>,
+): string | null {
+  if (!item || typeof item !== 'object') {
+    return 'not an object';
+  }
+
+  const candidate = item as Record<string, any>;
+  if (!isFilled(candidate.bug?.title)) return 'missing bug';
+  if (!isFilled(candidate.solution?.description)) return 'missing solution';
+  if (!isFilled(candidate.solution?.explanation)) {
+    return 'missing explanation';
+  }
+
+  const difficulty = String(candidate.difficulty ?? '').toLowerCase();
+  if (!DIFFICULTIES.includes(difficulty as CardDifficulty)) {
+    return `invalid difficulty: ${candidate.difficulty}`;
+  }
+
+  if (bugs.has(normalizeText(candidate.bug.title))) {
+    return 'duplicate bug';
+  }
+  if (solutions.has(normalizeText(candidate.solution.description))) {
+    return 'solution matches another bug';
+  }
+
+  return null;
+}
+
+/**
+ * Checks that a value is a non-blank string
+ */
+function isFilled(value: unknown): boolean {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+/**
+ * Trims an optional text field, dropping blank or non-string values
+ */
+function optionalText(value: unknown): string | undefined {
+  return isFilled(value) ? (value as string).trim() : undefined;
+}
+
+/**
+ * Normalizes text for duplicate detection
+ */
+function normalizeText(text: string): string {
+  return text.trim().toLowerCase().replace(/\s+/g, ' ');
+}
@@ -0,0 +1,96 @@
+import { registerAs } from '@nestjs/config';
+
+/**
+ * Available LLM provider implementations
+ */
+export type LlmProviderName = 'openai' | 'openai-compatible' | 'fake';
+
+/**
+ * Configuration for the LLM used to generate cards
+ */
+export interface AiConfig {
+  /**
+   * Which provider implementation to use
+   */
+  provider: LlmProviderName;
+
+  /**
+   * Model name passed to the provider
+   */
+  model: string;
+
+  /**
+   * Base URL of the API (required for openai-compatible)
+   */
+  baseUrl?: string;
+
+  /**
+   * API key sent with each request
+   */
+  apiKey?: string;
+
+  /**
+   * Sampling temperature
+   */
+  temperature: number;
+
+  /**
+   * Maximum number of tokens in a completion
+   */
+  maxTokens: number;
+
+  /**
+   * Request timeout in milliseconds
+   */
+  timeoutMs: number;
+
+  /**
+   * Settings for the pre-generated card pool
+   */
+  pool: {
+    /**
+     * File the pool is saved to between restarts
+     */
+    path: string;
+
+    /**
+     * Number of pairs to keep buffered per difficulty
+     */
+    targetPerDifficulty: number;
+
+    /**
+     * Maximum number of pairs requested from the LLM at once
+     */
+    batchSize: number;
+
+    /**
+     * Interval between background refills in milliseconds (0 disables them)
+     */
+    refillIntervalMs: number;
+  };
+}
+
+/**
+ * Reads the AI configuration from the environment
+ */
+export const aiConfig = registerAs(
+  'ai',
+  (): AiConfig => ({
+    provider: (process.env.AI_PROVIDER as LlmProviderName) || 'openai',
+    model: process.env.AI_MODEL || 'gpt-3.5-turbo',
+    baseUrl: process.env.AI_BASE_URL,
+    apiKey: process.env.AI_API_KEY || process.env.OPENAI_API_KEY,
+    temperature: parseFloat(process.env.AI_TEMPERATURE || '0.7'),
+    maxTokens: parseInt(process.env.AI_MAX_TOKENS || '1000', 10),
+    timeoutMs: parseInt(process.env.AI_TIMEOUT_MS || '30000', 10),
+    pool: {
+      path: process.env.CARD_POOL_PATH || 'data/card-pool.json',
+      targetPerDifficulty: parseInt(process.env.CARD_POOL_TARGET || '20', 10),
+      batchSize: parseInt(process.env.CARD_POOL_BATCH_SIZE || '6', 10),
+      refillIntervalMs: parseInt(
+        process.env.CARD_POOL_REFILL_INTERVAL_MS || '60000',
+        10,
+      ),
+    },
+  }),
+);
@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AiService } from './ai.service';
+import { CardPoolService } from './card-pool.service';
+import { CardPoolController } from './card-pool.controller';
+import { AiConfig, aiConfig } from './ai.config';
+import { LLM_PROVIDER } from './providers/llm-provider.interface';
+import { createLlmProvider } from './providers/llm-provider.factory';
+import { DeckModule } from '../deck/deck.module';
+
+/**
+ * Module for AI-generated card content
+ */
+@Module({
+  imports: [ConfigModule.forFeature(aiConfig), DeckModule],
+  controllers: [CardPoolController],
+  providers: [
+    AiService,
+    CardPoolService,
+    {
+      provide: LLM_PROVIDER,
+      inject: [aiConfig.KEY],
+      useFactory: (config: AiConfig) => createLlmProvider(config),
+    },
+  ],
+  exports: [AiService, CardPoolService],
+})
+export class AiModule {}
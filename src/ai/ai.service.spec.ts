@@ -1 +1,191 @@
- 
\ No newline at end of file
+import { Test, TestingModule } from '@nestjs/testing';
+import { AiService } from './ai.service';
+import { FakeLlmProvider } from './providers/fake.provider';
+import { LLM_PROVIDER } from './providers/llm-provider.interface';
+import { DeckService } from '../deck/deck.service';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+
+describe('AiService', () => {
+  const deckPair: BoardPair = {
+    bug: { title: 'Deck bug', description: 'Deck symptom' },
+    solution: { description: 'Deck solution', explanation: 'Deck reason' },
+    difficulty: 'hard',
+    category: BugCategory.BACKEND,
+  };
+
+  // Builds a pair the way the model is asked to write it
+  const aiItem = (
+    bug: string,
+    solution: string,
+    difficulty: string,
+    category?: string,
+  ) => ({
+    bug: { title: bug, description: `${bug} symptom` },
+    solution: { description: solution, explanation: `${solution} works` },
+    difficulty,
+    category,
+  });
+
+  let llmProvider: FakeLlmProvider;
+  let deckService: { drawPairs: jest.Mock };
+  let aiService: AiService;
+
+  const createService = async (responses: string[] = []) => {
+    llmProvider = new FakeLlmProvider(responses);
+    deckService = {
+      drawPairs: jest.fn().mockReturnValue({
+        pairs: [deckPair],
+        substitutions: [],
+        outsideFilter: 0,
+      }),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiService,
+        { provide: LLM_PROVIDER, useValue: llmProvider },
+        { provide: DeckService, useValue: deckService },
+      ],
+    }).compile();
+
+    aiService = app.get<AiService>(AiService);
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generateBugSolutionPairs', () => {
+    it('should return pairs matching the requested distribution', async () => {
+      await createService();
+
+      const { pairs, substitutions } = await aiService.generateBugSolutionPairs(
+        {
+          easy: 2,
+          medium: 1,
+          hard: 1,
+        },
+      );
+
+      expect(pairs.map((pair) => pair.difficulty)).toEqual([
+        'easy',
+        'easy',
+        'medium',
+        'hard',
+      ]);
+      expect(substitutions).toEqual([]);
+      expect(deckService.drawPairs).not.toHaveBeenCalled();
+      expect(llmProvider.calls[0][1].content).toContain(
+        'exactly 2 easy, 1 medium and 1 hard',
+      );
+    });
+
+    it('should accept replies wrapped in markdown fences', async () => {
+      await createService([
+        '```json\n' +
+          JSON.stringify([aiItem('Bug', 'Fix', 'Easy', 'x')]) +
+          '\n```',
+      ]);
+
+      const { pairs, fallbackRate } = await aiService.generateBugSolutionPairs({
+        easy: 1,
+        medium: 0,
+        hard: 0,
+      });
+
+      expect(pairs).toEqual([
+        {
+          bug: { title: 'Bug', description: 'Bug symptom' },
+          solution: {
+            description: 'Fix',
+            code: undefined,
+            explanation: 'Fix works',
+          },
+          difficulty: 'easy',
+          category: BugCategory.GENERAL,
+        },
+      ]);
+      expect(fallbackRate).toBe(0);
+    });
+
+    it('should keep valid pairs and re-request only the missing ones', async () => {
+      await createService([
+        JSON.stringify([
+          aiItem('Bug A', 'Fix A', 'easy'),
+          aiItem('bug a', 'Fix B', 'medium'),
+          aiItem('Bug C', 'fix a', 'medium'),
+          aiItem('Bug D', 'Fix D', 'extreme'),
+          aiItem('', 'Fix E', 'medium'),
+          {
+            ...aiItem('Bug F', 'Fix F', 'medium'),
+            solution: { description: 'Fix F' },
+          },
+        ]),
+      ]);
+
+      const { pairs, fallbackCount } = await aiService.generateBugSolutionPairs(
+        {
+          easy: 1,
+          medium: 1,
+          hard: 0,
+        },
+      );
+
+      expect(pairs.map((pair) => pair.bug.title)).toEqual([
+        'Bug A',
+        'Race Condition',
+      ]);
+      expect(fallbackCount).toBe(0);
+      expect(llmProvider.calls).toHaveLength(2);
+      expect(llmProvider.calls[1][1].content).toContain(
+        'exactly 0 easy, 1 medium and 0 hard',
+      );
+      expect(llmProvider.calls[1][1].content).toContain(
+        'Do not repeat these bugs: Bug A',
+      );
+    });
+
+    it('should top up from the deck once re-requests are exhausted', async () => {
+      await createService(['Sorry, I cannot help with that.', '[]']);
+
+      const { pairs, fallbackCount, fallbackRate } =
+        await aiService.generateBugSolutionPairs({
+          easy: 0,
+          medium: 0,
+          hard: 1,
+        });
+
+      expect(pairs).toEqual([deckPair]);
+      expect(fallbackCount).toBe(1);
+      expect(fallbackRate).toBe(1);
+      expect(deckService.drawPairs).toHaveBeenCalledWith(
+        { easy: 0, medium: 0, hard: 1 },
+        {},
+      );
+    });
+
+    it('should not retry when the provider fails', async () => {
+      await createService();
+      jest
+        .spyOn(llmProvider, 'complete')
+        .mockRejectedValue(new Error('offline'));
+
+      const { pairs } = await aiService.generateBugSolutionPairs({
+        easy: 0,
+        medium: 0,
+        hard: 1,
+      });
+
+      expect(pairs).toEqual([deckPair]);
+      expect(llmProvider.complete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,139 +1,235 @@
-import { Injectable } from '@nestjs/common';
-import OpenAI from 'openai';
+import { Inject, Injectable } from '@nestjs/common';
+import { DeckService } from '../deck/deck.service';
+import {
+  BoardPair,
+  BugCategory,
+  DeckFilter,
+  PairSelection,
+} from '../deck/entities/bug-solution-pair.entity';
+import { countPairs, remainingDistribution } from '../deck/pair-selection';
+import {
+  CardDifficulty,
+  DifficultyDistribution,
+} from '../game/entities/card.entity';
+import { extractJsonArray, validateAiPairs } from './ai-response.parser';
+import {
+  LLM_PROVIDER,
+  LlmMessage,
+  LlmProvider,
+} from './providers/llm-provider.interface';
+
+/**
+ * Pairs generated by the AI, with how much of the board the deck had to fill
+ */
+export interface AiPairSelection extends PairSelection {
+  /**
+   * Number of pairs topped up from the curated deck
+   */
+  fallbackCount: number;
+
+  /**
+   * Share of the requested pairs topped up from the curated deck (0 to 1)
+   */
+  fallbackRate: number;
+}
 
 @Injectable()
 export class AiService {
-  private openai: OpenAI;
+  private readonly MAX_REQUESTS = 2; // Initial request plus one re-request
 
-  // Fallback card content
-  private readonly fallbackContent = {
-    easy: [
-      {
-        bug: 'Null Pointer Exception',
-        solution: 'Check for null before accessing object',
-      },
-      {
-        bug: 'Array Index Out of Bounds',
-        solution: 'Verify array index is within bounds',
-      },
-      {
-        bug: 'Infinite Loop',
-        solution: 'Add proper loop termination condition',
-      },
-    ],
-    medium: [
-      { bug: 'Race Condition', solution: 'Implement proper synchronization' },
-      { bug: 'Memory Leak', solution: 'Release resources in finally block' },
-      { bug: 'SQL Injection', solution: 'Use parameterized queries' },
-    ],
-    hard: [
-      { bug: 'Deadlock', solution: 'Implement proper lock ordering' },
-      {
-        bug: 'Buffer Overflow',
-        solution: 'Validate buffer size before writing',
-      },
-      { bug: 'Cross-Site Scripting', solution: 'Sanitize user input' },
-    ],
-  };
-
-  constructor() {
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+  constructor(
+    @Inject(LLM_PROVIDER) private readonly llmProvider: LlmProvider,
+    private readonly deckService: DeckService,
+  ) {}
+
+  /**
+   * Generates bug-solution pairs for the game. Pairs the AI fails to supply
+   * are topped up from the curated deck.
+   * @param distribution - Number of pairs wanted per difficulty
+   * @param filter - Optional category and tag restrictions
+   * @returns The pairs and how many of them came from the deck
+   */
+  async generateBugSolutionPairs(
+    distribution: DifficultyDistribution,
+    filter: DeckFilter = {},
+  ): Promise<AiPairSelection> {
+    const pairs = await this.requestPairs(distribution, filter);
+    return this.topUpFromDeck(pairs, distribution, filter);
   }
 
   /**
-   * Generates bug-solution pairs for the game
+   * Fills whatever AI pairs are missing from a distribution with deck pairs
+   * @param pairs - AI pairs already available
+   * @param distribution - Number of pairs wanted per difficulty
+   * @param filter - Optional category and tag restrictions
+   * @returns All pairs and how many of them came from the deck
    */
-  async generateBugSolutionPairs(count: number): Promise<
-    Array<{
-      bug: string;
-      solution: string;
-      difficulty: 'easy' | 'medium' | 'hard';
-    }>
-  > {
-    try {
-      const prompt = `Generate ${count} pairs of programming bugs and their solutions. 
-      Format each pair as a JSON object with 'bug' (the problem), 'solution' (how to fix it), and 'difficulty' (easy/medium/hard).
-      Return as a JSON array. Example:
-      [
-        {
-          "bug": "Null pointer exception when accessing object property",
-          "solution": "Add null check before accessing the property",
-          "difficulty": "easy"
-        }
-      ]`;
+  topUpFromDeck(
+    pairs: BoardPair[],
+    distribution: DifficultyDistribution,
+    filter: DeckFilter = {},
+  ): AiPairSelection {
+    const missing = remainingDistribution(distribution, pairs);
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-3.5-turbo',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a programming expert. Generate realistic bug-solution pairs.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 1000,
-      });
+    if (countPairs(missing) === 0) {
+      return {
+        pairs,
+        substitutions: [],
+        outsideFilter: 0,
+        fallbackCount: 0,
+        fallbackRate: 0,
+      };
+    }
+
+    console.warn('AI pairs fell short, topping up from deck:', missing);
+    const topUp = this.deckService.drawPairs(missing, filter);
+    const requested = countPairs(distribution);
+
+    return {
+      ...topUp,
+      pairs: [...pairs, ...topUp.pairs],
+      fallbackCount: topUp.pairs.length,
+      fallbackRate: requested > 0 ? topUp.pairs.length / requested : 0,
+    };
+  }
 
-      const response = completion.choices[0].message.content;
-      const aiPairs = JSON.parse(response);
+  /**
+   * Asks the AI for validated pairs. Invalid pairs are dropped and only the
+   * missing ones are re-requested; the deck is never used.
+   * @param distribution - Number of pairs wanted per difficulty
+   * @param filter - Optional category and tag restrictions
+   * @returns Valid AI pairs, possibly fewer than requested
+   */
+  async requestPairs(
+    distribution: DifficultyDistribution,
+    filter: DeckFilter = {},
+  ): Promise<BoardPair[]> {
+    const pairs: BoardPair[] = [];
 
-      // Validate AI response format
-      if (!Array.isArray(aiPairs) || aiPairs.length !== count) {
-        throw new Error('Invalid AI response format');
+    for (let attempt = 0; attempt < this.MAX_REQUESTS; attempt++) {
+      const missing = remainingDistribution(distribution, pairs);
+      if (countPairs(missing) === 0) break;
+
+      let response: string;
+      try {
+        response = await this.llmProvider.complete(
+          this.buildMessages(missing, filter, pairs),
+        );
+      } catch (error) {
+        console.error('Error generating bug-solution pairs:', error);
+        break;
       }
 
-      return aiPairs;
+      pairs.push(...this.acceptPairs(response, missing, filter, pairs));
+    }
+
+    return pairs;
+  }
+
+  /**
+   * Parses a reply and keeps the valid pairs that are still needed
+   */
+  private acceptPairs(
+    response: string,
+    missing: DifficultyDistribution,
+    filter: DeckFilter,
+    existing: BoardPair[],
+  ): BoardPair[] {
+    let items: unknown[];
+    try {
+      items = extractJsonArray(response);
     } catch (error) {
-      console.error('Error generating bug-solution pairs:', error);
-      return this.getFallbackPairs(count);
+      console.warn('Discarding AI response:', error.message);
+      return [];
+    }
+
+    const { valid, rejected } = validateAiPairs(items, existing);
+    if (rejected.length > 0) {
+      console.warn(
+        `Rejected ${rejected.length} AI pairs:`,
+        rejected.map((entry) => entry.reason),
+      );
     }
+
+    const categories = this.allowedCategories(filter);
+    return this.takeByDifficulty(
+      valid.filter((pair) => categories.includes(pair.category)),
+      missing,
+    );
   }
 
   /**
-   * Gets fallback pairs from existing content
+   * Builds the conversation asking for pairs
    */
-  private getFallbackPairs(count: number): Array<{
-    bug: string;
-    solution: string;
-    difficulty: 'easy' | 'medium' | 'hard';
-  }> {
-    const pairs: Array<{
-      bug: string;
-      solution: string;
-      difficulty: 'easy' | 'medium' | 'hard';
-    }> = [];
-
-    // Add pairs from each difficulty level
-    Object.entries(this.fallbackContent).forEach(([difficulty, content]) => {
-      content.forEach((item) => {
-        pairs.push({
-          bug: item.bug,
-          solution: item.solution,
-          difficulty: difficulty as 'easy' | 'medium' | 'hard',
-        });
-      });
-    });
-
-    // Shuffle and return requested number of pairs
-    return this.shuffleArray(pairs).slice(0, count);
+  private buildMessages(
+    distribution: DifficultyDistribution,
+    filter: DeckFilter,
+    existing: BoardPair[],
+  ): LlmMessage[] {
+    const categories = this.allowedCategories(filter);
+    const topics = filter.tags?.length
+      ? `\n      Focus on these topics: ${filter.tags.join(', ')}.`
+      : '';
+    const exclusions = existing.length
+      ? `\n      Do not repeat these bugs: ${existing.map((pair) => pair.bug.title).join('; ')}.`
+      : '';
+    const prompt = `Generate ${countPairs(distribution)} pairs of programming bugs and their solutions: exactly ${distribution.easy} easy, ${distribution.medium} medium and ${distribution.hard} hard.${topics}${exclusions}
+      Format each pair as a JSON object with:
+      - 'bug': an object with 'title' (the problem in a few words) and 'description' (the symptoms in one sentence)
+      - 'solution': an object with 'description' (the fix in a few words), 'code' (a short code snippet showing the fix) and 'explanation' (why the fix works in one or two sentences)
+      - 'difficulty': easy/medium/hard
+      - 'category': one of ${categories.join('/')}
+      Every bug title and every solution description must be unique.
+      Return only a JSON array. Example:
+      [
+        {
+          "bug": {
+            "title": "Null pointer exception",
+            "description": "Accessing a property of an object that may be null crashes the request"
+          },
+          "solution": {
+            "description": "Add a null check before accessing the property",
+            "code": "if (user != null) {\n  return user.getName();\n}",
+            "explanation": "Checking for null first means the property is only read when the object exists"
+          },
+          "difficulty": "easy",
+          "category": "${categories[0]}"
+        }
+      ]`;
+
+    return [
+      {
+        role: 'system',
+        content:
+          'You are a programming expert. Generate realistic bug-solution pairs.',
+      },
+      {
+        role: 'user',
+        content: prompt,
+      },
+    ];
   }
 
   /**
-   * Shuffles an array using Fisher-Yates algorithm
+   * Gets the categories pairs may belong to
    */
-  private shuffleArray<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-    return shuffled;
+  private allowedCategories(filter: DeckFilter): BugCategory[] {
+    return filter.categories?.length
+      ? filter.categories
+      : Object.values(BugCategory);
+  }
+
+  /**
+   * Keeps at most the requested number of pairs at each difficulty
+   */
+  private takeByDifficulty(
+    pairs: BoardPair[],
+    distribution: DifficultyDistribution,
+  ): BoardPair[] {
+    return (['easy', 'medium', 'hard'] as CardDifficulty[]).flatMap((level) =>
+      pairs
+        .filter((pair) => pair.difficulty === level)
+        .slice(0, distribution[level]),
+    );
   }
 }
@@ -0,0 +1,15 @@
+import { Controller, Get } from '@nestjs/common';
+import { CardPoolService, CardPoolStats } from './card-pool.service';
+
+/**
+ * Exposes the health of the pre-generated card pool
+ */
+@Controller('card-pool')
+export class CardPoolController {
+  constructor(private readonly cardPoolService: CardPoolService) {}
+
+  @Get()
+  getStats(): CardPoolStats {
+    return this.cardPoolService.getStats();
+  }
+}
@@ -0,0 +1,116 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { aiConfig } from './ai.config';
+import { AiService } from './ai.service';
+import { CardPoolService } from './card-pool.service';
+import { FakeLlmProvider } from './providers/fake.provider';
+import { LLM_PROVIDER } from './providers/llm-provider.interface';
+import { DeckService } from '../deck/deck.service';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+
+describe('CardPoolService', () => {
+  const deckPair: BoardPair = {
+    bug: { title: 'Deck bug', description: 'Deck symptom' },
+    solution: { description: 'Deck solution', explanation: 'Deck reason' },
+    difficulty: 'hard',
+    category: BugCategory.BACKEND,
+  };
+
+  let poolPath: string;
+  let llmProvider: FakeLlmProvider;
+  let cardPoolService: CardPoolService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    poolPath = join(mkdtempSync(join(tmpdir(), 'pool-')), 'card-pool.json');
+    llmProvider = new FakeLlmProvider();
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        AiService,
+        CardPoolService,
+        { provide: LLM_PROVIDER, useValue: llmProvider },
+        {
+          provide: DeckService,
+          useValue: {
+            drawPairs: () => ({
+              pairs: [deckPair],
+              substitutions: [],
+              outsideFilter: 0,
+            }),
+          },
+        },
+        {
+          provide: aiConfig.KEY,
+          useValue: {
+            pool: {
+              path: poolPath,
+              targetPerDifficulty: 2,
+              batchSize: 6,
+              refillIntervalMs: 0,
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    cardPoolService = app.get<CardPoolService>(CardPoolService);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should fill every level up to its target and save the pool', async () => {
+    await cardPoolService.refill();
+
+    expect(cardPoolService.getStats().counts).toEqual({
+      easy: 2,
+      medium: 2,
+      hard: 2,
+    });
+    expect(JSON.parse(readFileSync(poolPath, 'utf8')).pairs).toHaveLength(6);
+  });
+
+  it('should not buffer the same pair twice', async () => {
+    await cardPoolService.refill();
+    jest.spyOn(llmProvider, 'complete').mockResolvedValueOnce(
+      JSON.stringify([
+        {
+          bug: { title: '  buffer   OVERFLOW ' },
+          solution: {
+            description: 'Validate buffer size before writing',
+            explanation: 'Bounds are checked',
+          },
+          difficulty: 'hard',
+        },
+      ]),
+    );
+    cardPoolService.drawPairs({ easy: 0, medium: 0, hard: 1 });
+    await cardPoolService.refill();
+
+    const stats = cardPoolService.getStats();
+    expect(stats.counts.hard).toBe(1);
+    expect(stats.lastRefillError).toBe('AI returned no new pairs');
+  });
+
+  it('should draw instantly and top up the rest from the deck', async () => {
+    await cardPoolService.refill();
+
+    const { pairs, fallbackCount } = cardPoolService.drawPairs({
+      easy: 1,
+      medium: 0,
+      hard: 3,
+    });
+
+    expect(pairs).toHaveLength(4);
+    expect(pairs).toContain(deckPair);
+    expect(fallbackCount).toBe(1);
+  });
+});
@@ -0,0 +1,316 @@
+import {
+  Inject,
+  Injectable,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { AiConfig, aiConfig } from './ai.config';
+import { AiPairSelection, AiService } from './ai.service';
+import { validateAiPairs } from './ai-response.parser';
+import {
+  BoardPair,
+  DeckFilter,
+} from '../deck/entities/bug-solution-pair.entity';
+import {
+  CardDifficulty,
+  DifficultyDistribution,
+} from '../game/entities/card.entity';
+
+const DIFFICULTIES: CardDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Health report for the card pool
+ */
+export interface CardPoolStats {
+  /**
+   * Buffered pairs per difficulty
+   */
+  counts: Record<CardDifficulty, number>;
+
+  /**
+   * Number of pairs the pool tries to keep per difficulty
+   */
+  targetPerDifficulty: number;
+
+  /**
+   * Whether a refill is currently running
+   */
+  refilling: boolean;
+
+  /**
+   * Timestamp of the last finished refill
+   */
+  lastRefillAt?: number;
+
+  /**
+   * Error message of the last failed refill
+   */
+  lastRefillError?: string;
+
+  /**
+   * Pairs generated since startup
+   */
+  generated: number;
+
+  /**
+   * Pairs handed out to games since startup
+   */
+  served: number;
+}
+
+/**
+ * Service keeping a buffer of validated AI pairs so game creation never
+ * waits on the LLM
+ */
+@Injectable()
+export class CardPoolService implements OnModuleInit, OnModuleDestroy {
+  private buffers: Record<CardDifficulty, BoardPair[]> = {
+    easy: [],
+    medium: [],
+    hard: [],
+  };
+  private hashes: Set<string> = new Set();
+  private refillTimer?: NodeJS.Timeout;
+  private refilling: Promise<void> | null = null;
+  private saving: Promise<void> = Promise.resolve();
+  private lastRefillAt?: number;
+  private lastRefillError?: string;
+  private generated = 0;
+  private served = 0;
+
+  constructor(
+    @Inject(aiConfig.KEY) private readonly config: AiConfig,
+    private readonly aiService: AiService,
+  ) {}
+
+  /**
+   * Restores the saved pool and starts refilling in the background
+   */
+  async onModuleInit(): Promise<void> {
+    await this.load();
+
+    if (this.config.pool.refillIntervalMs > 0) {
+      this.refillTimer = setInterval(
+        () => this.refill(),
+        this.config.pool.refillIntervalMs,
+      );
+      this.refillTimer.unref();
+      this.refill();
+    }
+  }
+
+  /**
+   * Stops background refills
+   */
+  onModuleDestroy(): void {
+    clearInterval(this.refillTimer);
+  }
+
+  /**
+   * Takes pairs from the pool without waiting on the LLM. Missing pairs are
+   * topped up from the curated deck.
+   * @param distribution - Number of pairs wanted per difficulty
+   * @param filter - Optional category and tag restrictions
+   * @returns The pairs and how many of them came from the deck
+   */
+  drawPairs(
+    distribution: DifficultyDistribution,
+    filter: DeckFilter = {},
+  ): AiPairSelection {
+    // AI pairs carry no tags, so tag-filtered boards come from the deck
+    const pairs = filter.tags?.length
+      ? []
+      : DIFFICULTIES.flatMap((level) =>
+          this.take(level, distribution[level], filter),
+        );
+
+    if (pairs.length > 0) {
+      this.served += pairs.length;
+      this.save().catch((error) =>
+        console.error('Error saving card pool:', error),
+      );
+      this.refill();
+    }
+
+    return this.aiService.topUpFromDeck(pairs, distribution, filter);
+  }
+
+  /**
+   * Gets the current health of the pool
+   */
+  getStats(): CardPoolStats {
+    return {
+      counts: {
+        easy: this.buffers.easy.length,
+        medium: this.buffers.medium.length,
+        hard: this.buffers.hard.length,
+      },
+      targetPerDifficulty: this.config.pool.targetPerDifficulty,
+      refilling: this.refilling !== null,
+      lastRefillAt: this.lastRefillAt,
+      lastRefillError: this.lastRefillError,
+      generated: this.generated,
+      served: this.served,
+    };
+  }
+
+  /**
+   * Tops the pool up to its target in the background. Concurrent calls share
+   * the refill already running.
+   * @returns A promise resolving when the refill finishes
+   */
+  refill(): Promise<void> {
+    if (!this.refilling) {
+      this.refilling = this.runRefill().finally(() => {
+        this.refilling = null;
+      });
+    }
+    return this.refilling;
+  }
+
+  /**
+   * Requests batches from the AI until every level reaches its target
+   */
+  private async runRefill(): Promise<void> {
+    try {
+      let batch = this.nextBatch();
+      while (batch) {
+        const pairs = await this.aiService.requestPairs(batch);
+        const added = pairs.filter((pair) => this.add(pair)).length;
+        if (added === 0) {
+          throw new Error('AI returned no new pairs');
+        }
+
+        this.generated += added;
+        await this.save();
+        batch = this.nextBatch();
+      }
+      this.lastRefillError = undefined;
+    } catch (error) {
+      console.error('Error refilling card pool:', error);
+      this.lastRefillError = error.message;
+    } finally {
+      this.lastRefillAt = Date.now();
+    }
+  }
+
+  /**
+   * Spreads the next request over the levels that are below target
+   * @returns The distribution to request, or null if the pool is full
+   */
+  private nextBatch(): DifficultyDistribution | null {
+    const batch: DifficultyDistribution = { easy: 0, medium: 0, hard: 0 };
+    const deficits = DIFFICULTIES.map(
+      (level) =>
+        this.config.pool.targetPerDifficulty - this.buffers[level].length,
+    );
+
+    let budget = this.config.pool.batchSize;
+    while (budget > 0 && deficits.some((deficit) => deficit > 0)) {
+      DIFFICULTIES.forEach((level, index) => {
+        if (budget > 0 && deficits[index] > 0) {
+          batch[level]++;
+          deficits[index]--;
+          budget--;
+        }
+      });
+    }
+
+    return budget === this.config.pool.batchSize ? null : batch;
+  }
+
+  /**
+   * Removes up to `count` pairs of a level that pass the filter
+   */
+  private take(
+    level: CardDifficulty,
+    count: number,
+    filter: DeckFilter,
+  ): BoardPair[] {
+    const taken: BoardPair[] = [];
+    this.buffers[level] = this.buffers[level].filter((pair) => {
+      const matches =
+        !filter.categories?.length || filter.categories.includes(pair.category);
+      if (taken.length < count && matches) {
+        taken.push(pair);
+        this.hashes.delete(this.hash(pair));
+        return false;
+      }
+      return true;
+    });
+    return taken;
+  }
+
+  /**
+   * Adds a pair unless an identical one is already buffered
+   * @returns Whether the pair was added
+   */
+  private add(pair: BoardPair): boolean {
+    const hash = this.hash(pair);
+    if (this.hashes.has(hash)) return false;
+
+    this.hashes.add(hash);
+    this.buffers[pair.difficulty].push(pair);
+    return true;
+  }
+
+  /**
+   * Hashes the content of a pair for deduplication
+   */
+  private hash(pair: BoardPair): string {
+    const normalize = (text: string) =>
+      text.trim().toLowerCase().replace(/\s+/g, ' ');
+    return createHash('sha256')
+      .update(
+        `${normalize(pair.bug.title)}\n${normalize(pair.solution.description)}`,
+      )
+      .digest('hex');
+  }
+
+  /**
+   * Restores the pool from disk, keeping only valid pairs
+   */
+  private async load(): Promise<void> {
+    const poolPath = resolve(this.config.pool.path);
+
+    let raw: string;
+    try {
+      raw = await readFile(poolPath, 'utf8');
+    } catch {
+      return; // Nothing saved yet
+    }
+
+    try {
+      const { valid } = validateAiPairs(JSON.parse(raw).pairs ?? []);
+      valid.forEach((pair) => this.add(pair));
+      console.log(`Restored ${valid.length} pairs from ${poolPath}`);
+    } catch (error) {
+      console.error('Ignoring unreadable card pool file:', error);
+    }
+  }
+
+  /**
+   * Saves the pool to disk, one write at a time
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.writePool());
+    return this.saving;
+  }
+
+  /**
+   * Writes the current pool to its file
+   */
+  private async writePool(): Promise<void> {
+    const poolPath = resolve(this.config.pool.path);
+    const pairs = DIFFICULTIES.flatMap((level) => this.buffers[level]);
+
+    await mkdir(dirname(poolPath), { recursive: true });
+    await writeFile(`${poolPath}.tmp`, JSON.stringify({ pairs }, null, 2));
+    await rename(`${poolPath}.tmp`, poolPath);
+  }
+}
@@ -0,0 +1,145 @@
+import { CardDifficulty } from '../../game/entities/card.entity';
+import { LlmMessage, LlmProvider } from './llm-provider.interface';
+
+/**
+ * Canned content the fake provider answers with
+ */
+const CANNED_PAIRS: Record<
+  CardDifficulty,
+  Array<{
+    bug: string;
+    symptom: string;
+    solution: string;
+    code: string;
+    explanation: string;
+    category: string;
+  }>
+> = {
+  easy: [
+    {
+      bug: 'Null Pointer Exception',
+      symptom: 'Reading a property of a missing object crashes the request',
+      solution: 'Check for null before accessing object',
+      code: 'if (user) {\n  return user.name;\n}',
+      explanation:
+        'The property is only read once the object is known to exist',
+      category: 'GENERAL',
+    },
+    {
+      bug: 'Array Index Out of Bounds',
+      symptom: 'The last iteration reads past the end of the array',
+      solution: 'Verify array index is within bounds',
+      code: 'for (let i = 0; i < items.length; i++) {}',
+      explanation: 'Valid indexes run from 0 to length - 1',
+      category: 'GENERAL',
+    },
+    {
+      bug: 'Infinite Loop',
+      symptom: 'The page hangs because the loop never exits',
+      solution: 'Add proper loop termination condition',
+      code: 'while (retries < MAX_RETRIES) {\n  retries++;\n}',
+      explanation: 'The counter moves towards the exit condition on every pass',
+      category: 'GENERAL',
+    },
+  ],
+  medium: [
+    {
+      bug: 'Race Condition',
+      symptom: 'Two requests updating the same balance lose one update',
+      solution: 'Implement proper synchronization',
+      code: 'await mutex.runExclusive(() => updateBalance(id, amount));',
+      explanation: 'Only one update can read and write the balance at a time',
+      category: 'BACKEND',
+    },
+    {
+      bug: 'Memory Leak',
+      symptom: 'Memory usage grows with every processed file',
+      solution: 'Release resources in finally block',
+      code: 'try {\n  read(handle);\n} finally {\n  handle.close();\n}',
+      explanation: 'The finally block runs even when reading throws',
+      category: 'PERFORMANCE',
+    },
+    {
+      bug: 'SQL Injection',
+      symptom: 'A crafted search term dumps the users table',
+      solution: 'Use parameterized queries',
+      code: "db.query('SELECT * FROM items WHERE name = $1', [term]);",
+      explanation: 'Parameters are sent as data and never parsed as SQL',
+      category: 'SECURITY',
+    },
+  ],
+  hard: [
+    {
+      bug: 'Deadlock',
+      symptom: 'Two workers wait on each other forever',
+      solution: 'Implement proper lock ordering',
+      code: 'const [first, second] = [a, b].sort(byId);',
+      explanation:
+        'Taking locks in the same order makes a wait cycle impossible',
+      category: 'BACKEND',
+    },
+    {
+      bug: 'Buffer Overflow',
+      symptom: 'Long input overwrites memory next to the buffer',
+      solution: 'Validate buffer size before writing',
+      code: 'strncpy(dest, src, sizeof(dest) - 1);',
+      explanation: 'The copy never writes more bytes than the buffer holds',
+      category: 'SECURITY',
+    },
+    {
+      bug: 'Cross-Site Scripting',
+      symptom: 'A comment containing a script runs in other browsers',
+      solution: 'Sanitize user input',
+      code: 'element.textContent = comment;',
+      explanation: 'Text content is displayed as text and never parsed as HTML',
+      category: 'FRONTEND',
+    },
+  ],
+};
+
+/**
+ * Deterministic provider for tests and offline play. Replies with scripted
+ * responses first, then with canned pairs matching the requested mix.
+ */
+export class FakeLlmProvider implements LlmProvider {
+  /**
+   * Every conversation the provider was asked to complete
+   */
+  readonly calls: LlmMessage[][] = [];
+
+  constructor(private readonly responses: string[] = []) {}
+
+  async complete(messages: LlmMessage[]): Promise<string> {
+    this.calls.push(messages);
+
+    if (this.responses.length > 0) {
+      return this.responses.shift();
+    }
+
+    const prompt = messages.map((message) => message.content).join('\n');
+    const match = prompt.match(/(\d+) easy, (\d+) medium and (\d+) hard/);
+    const counts: Record<CardDifficulty, number> = match
+      ? { easy: +match[1], medium: +match[2], hard: +match[3] }
+      : { easy: 1, medium: 1, hard: 1 };
+
+    const pairs = (Object.keys(counts) as CardDifficulty[]).flatMap((level) =>
+      Array.from({ length: counts[level] }, (_, index) => {
+        const canned = CANNED_PAIRS[level][index % CANNED_PAIRS[level].length];
+        const round = Math.floor(index / CANNED_PAIRS[level].length);
+        const suffix = round > 0 ? ` #${round + 1}` : '';
+        return {
+          bug: { title: `${canned.bug}${suffix}`, description: canned.symptom },
+          solution: {
+            description: `${canned.solution}${suffix}`,
+            code: canned.code,
+            explanation: canned.explanation,
+          },
+          difficulty: level,
+          category: canned.category,
+        };
+      }),
+    );
+
+    return JSON.stringify(pairs);
+  }
+}
@@ -0,0 +1,23 @@
+import { AiConfig } from '../ai.config';
+import { FakeLlmProvider } from './fake.provider';
+import { LlmProvider } from './llm-provider.interface';
+import { OpenAiCompatibleProvider } from './openai-compatible.provider';
+import { OpenAiProvider } from './openai.provider';
+
+/**
+ * Builds the provider named in the AI configuration
+ * @param config - AI configuration
+ * @returns The provider instance
+ */
+export function createLlmProvider(config: AiConfig): LlmProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAiProvider(config);
+    case 'openai-compatible':
+      return new OpenAiCompatibleProvider(config);
+    case 'fake':
+      return new FakeLlmProvider();
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+}
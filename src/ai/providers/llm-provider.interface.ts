@@ -0,0 +1,31 @@
+/**
+ * Injection token for the active LLM provider
+ */
+export const LLM_PROVIDER = 'LLM_PROVIDER';
+
+/**
+ * A single chat message sent to the LLM
+ */
+export interface LlmMessage {
+  /**
+   * Author of the message
+   */
+  role: 'system' | 'user' | 'assistant';
+
+  /**
+   * Text of the message
+   */
+  content: string;
+}
+
+/**
+ * A chat completion backend
+ */
+export interface LlmProvider {
+  /**
+   * Sends a conversation to the model
+   * @param messages - Conversation so far
+   * @returns Text of the model's reply
+   */
+  complete(messages: LlmMessage[]): Promise<string>;
+}
@@ -0,0 +1,52 @@
+import { AiConfig } from '../ai.config';
+import { LlmMessage, LlmProvider } from './llm-provider.interface';
+
+/**
+ * Provider for self-hosted models exposing an OpenAI-compatible
+ * `/chat/completions` endpoint
+ */
+export class OpenAiCompatibleProvider implements LlmProvider {
+  constructor(private readonly config: AiConfig) {
+    if (!config.baseUrl) {
+      throw new Error(
+        'AI_BASE_URL is required for the openai-compatible provider',
+      );
+    }
+  }
+
+  async complete(messages: LlmMessage[]): Promise<string> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+
+    const url = `${this.config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.config.model,
+        messages,
+        temperature: this.config.temperature,
+        max_tokens: this.config.maxTokens,
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Completion request failed with status ${response.status}`,
+      );
+    }
+
+    const body = await response.json();
+    const content = body?.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('Completion response has no message content');
+    }
+
+    return content;
+  }
+}
@@ -0,0 +1,28 @@
+import OpenAI from 'openai';
+import { AiConfig } from '../ai.config';
+import { LlmMessage, LlmProvider } from './llm-provider.interface';
+
+/**
+ * Provider backed by the official OpenAI API
+ */
+export class OpenAiProvider implements LlmProvider {
+  private openai: OpenAI;
+
+  constructor(private readonly config: AiConfig) {
+    this.openai = new OpenAI({
+      apiKey: config.apiKey,
+      timeout: config.timeoutMs,
+    });
+  }
+
+  async complete(messages: LlmMessage[]): Promise<string> {
+    const completion = await this.openai.chat.completions.create({
+      model: this.config.model,
+      messages,
+      temperature: this.config.temperature,
+      max_tokens: this.config.maxTokens,
+    });
+
+    return completion.choices[0].message.content;
+  }
+}
@@ -4,6 +4,9 @@ import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { RoomsModule } from './rooms/rooms.module';
 import { GameModule } from './game/game.module';
+import { BotModule } from './bot/bot.module';
+import { TournamentModule } from './tournament/tournament.module';
+import { DailyChallengeModule } from './daily-challenge/daily-challenge.module';
 
 /**
  * Root module of the application
@@ -15,6 +18,9 @@ import { GameModule } from './game/game.module';
     }),
     RoomsModule,
     GameModule,
+    BotModule,
+    TournamentModule,
+    DailyChallengeModule,
   ],
   controllers: [AppController],
   providers: [AppService],
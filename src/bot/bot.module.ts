@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { BotService } from './bot.service';
+import { GameModule } from '../game/game.module';
+import { RandomModule } from '../random/random.module';
+
+/**
+ * Module for server-side bot players
+ */
+@Module({
+  imports: [GameModule, RandomModule],
+  providers: [BotService],
+})
+export class BotModule {}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BotService } from './bot.service';
+import { GameService } from '../game/game.service';
+import { PersonalBestService } from '../game/personal-best.service';
+import { RandomService } from '../random/random.service';
+import { CardPoolService } from '../ai/card-pool.service';
+import { DeckService } from '../deck/deck.service';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+import { BotLevel, GameState } from '../game/entities/game.entity';
+
+describe('BotService', () => {
+  const boardPairs: BoardPair[] = ['easy', 'medium', 'hard'].map(
+    (difficulty: BoardPair['difficulty'], index) => ({
+      bug: { title: `Bug ${index}`, description: `Symptom ${index}` },
+      solution: {
+        description: `Fix ${index}`,
+        explanation: `Reason ${index}`,
+      },
+      difficulty,
+      category: BugCategory.GENERAL,
+    }),
+  );
+
+  let app: TestingModule;
+  let gameService: GameService;
+  let randomService: RandomService;
+
+  const createGame = (
+    players: { id: string; nickname: string; botLevel?: BotLevel }[],
+  ): Promise<GameState> =>
+    gameService.createGame('ROOM01', players, {
+      numberOfPairs: 3,
+      turnTimeLimit: 30,
+      difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+      cardSource: 'deck',
+    });
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+
+    app = await Test.createTestingModule({
+      providers: [
+        GameService,
+        BotService,
+        RandomService,
+        { provide: CardPoolService, useValue: {} },
+        {
+          provide: DeckService,
+          useValue: {
+            drawPairs: () => ({
+              pairs: boardPairs,
+              substitutions: [],
+              outsideFilter: 0,
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: unknown) => fallback },
+        },
+        { provide: PersonalBestService, useValue: { record: jest.fn() } },
+      ],
+    }).compile();
+    await app.init();
+
+    gameService = app.get<GameService>(GameService);
+    randomService = app.get<RandomService>(RandomService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('should take its turn through the regular flip path after a pause', async () => {
+    const game = await createGame([
+      { id: 'alice', nickname: 'Alice' },
+      { id: 'bot', nickname: 'Medium Bot', botLevel: 'medium' },
+    ]);
+    // Halfway between the shortest and longest pause of a medium bot
+    jest.spyOn(randomService, 'next').mockReturnValue(0.5);
+
+    const [first] = game.cards;
+    const other = game.cards.find((card) => card.pairId !== first.pairId);
+    gameService.handleCardFlip(game.gameId, 'alice', first.id);
+    gameService.handleCardFlip(game.gameId, 'alice', other.id);
+    const flip = jest.spyOn(gameService, 'handleCardFlip');
+    jest.advanceTimersByTime(1000);
+    expect(game.currentTurn).toBe('bot');
+
+    jest.advanceTimersByTime(1500);
+    expect(flip).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(flip).toHaveBeenCalledWith(game.gameId, 'bot', expect.any(String));
+    expect(game.players.bot.flips).toBe(1);
+
+    jest.advanceTimersByTime(1600);
+    expect(game.players.bot.flips).toBe(2);
+  });
+
+  it('should match a card with a partner it saw another player reveal', async () => {
+    const game = await createGame([
+      { id: 'alice', nickname: 'Alice' },
+      { id: 'bot', nickname: 'Hard Bot', botLevel: 'hard' },
+    ]);
+    // Always recall, wait the shortest time and pick the first unseen card
+    jest.spyOn(randomService, 'next').mockReturnValue(0);
+
+    // Alice reveals the partner of the first card and an unrelated card
+    const [first] = game.cards;
+    const partner = game.cards.find((card) => card.id === first.matchingCardId);
+    const other = game.cards.find((card) => card.pairId !== first.pairId);
+    gameService.handleCardFlip(game.gameId, 'alice', partner.id);
+    gameService.handleCardFlip(game.gameId, 'alice', other.id);
+    jest.advanceTimersByTime(1000);
+    expect(game.currentTurn).toBe('bot');
+
+    jest.advanceTimersByTime(600);
+    expect(first.isFlipped).toBe(true);
+
+    jest.advanceTimersByTime(600);
+    expect(partner.isMatched).toBe(true);
+    expect(game.players.bot.matchesFound).toBe(1);
+  });
+
+  it('should leave humans to play their own turns', async () => {
+    const game = await createGame([
+      { id: 'alice', nickname: 'Alice' },
+      { id: 'bob', nickname: 'Bob' },
+    ]);
+
+    jest.advanceTimersByTime(10000);
+
+    expect(game.players.alice.flips).toBe(0);
+  });
+});
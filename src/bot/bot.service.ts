@@ -0,0 +1,252 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Subscription } from 'rxjs';
+import { GameService } from '../game/game.service';
+import { RandomService } from '../random/random.service';
+import { Card } from '../game/entities/card.entity';
+import {
+  BotLevel,
+  GameEvent,
+  GameState,
+  PlayerGameState,
+} from '../game/entities/game.entity';
+
+/**
+ * How each bot level remembers and plays
+ */
+export const BOT_SKILLS: Record<
+  BotLevel,
+  {
+    /** Number of most recently revealed cards the bot keeps in mind */
+    memorySpan: number;
+    /** Chance of recalling each remembered card when picking a card */
+    recall: number;
+    /** Shortest and longest pause before a flip, in milliseconds */
+    delayMs: [number, number];
+  }
+> = {
+  easy: { memorySpan: 4, recall: 0.4, delayMs: [1500, 3000] },
+  medium: { memorySpan: 8, recall: 0.7, delayMs: [1000, 2200] },
+  hard: { memorySpan: 24, recall: 0.95, delayMs: [600, 1500] },
+};
+
+/**
+ * Service playing the turns of bot players. Bots watch the same game events
+ * as human players and flip cards through GameService.handleCardFlip.
+ */
+@Injectable()
+export class BotService implements OnModuleInit, OnModuleDestroy {
+  // Revealed cards each bot remembers, keyed by `${gameId}:${botId}`. Maps
+  // card IDs to pair IDs, oldest first.
+  private memories: Map<string, Map<string, string>> = new Map();
+  // Pending flips, keyed by `${gameId}:${botId}`
+  private moveTimers: Map<string, NodeJS.Timeout> = new Map();
+  private subscription: Subscription;
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly randomService: RandomService,
+  ) {}
+
+  /**
+   * Starts watching games for bot turns
+   */
+  onModuleInit(): void {
+    this.subscription = this.gameService.events$.subscribe((event) =>
+      this.handleEvent(event),
+    );
+  }
+
+  /**
+   * Stops every pending bot flip
+   */
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.moveTimers.forEach((timer) => clearTimeout(timer));
+    this.moveTimers.clear();
+  }
+
+  /**
+   * Lets bots see what was revealed, then schedules the flips of bots that
+   * can play
+   */
+  private handleEvent(event: GameEvent): void {
+    const game = event.gameState;
+    const bots = this.getBots(game);
+    if (bots.length === 0) return;
+
+    if (event.type === 'gameOver') {
+      bots.forEach((bot) => this.forget(game.gameId, bot.id));
+      return;
+    }
+
+    bots.forEach((bot) => {
+      this.observe(event, bot);
+      this.scheduleMove(game, bot);
+    });
+  }
+
+  /**
+   * Updates a bot's memory with the cards an event revealed to it
+   */
+  private observe(event: GameEvent, bot: PlayerGameState): void {
+    if (!('playerId' in event)) return;
+
+    // Race boards are private, so bots only see their own flips there
+    const { gameState: game } = event;
+    if (game.mode === 'race' && event.playerId !== bot.id) return;
+
+    const memory = this.getMemory(game.gameId, bot.id);
+    switch (event.type) {
+      case 'cardFlipped':
+        this.remember(memory, event.card, bot.botLevel);
+        break;
+
+      case 'noMatch':
+        event.cards.forEach((card) =>
+          this.remember(memory, card, bot.botLevel),
+        );
+        break;
+
+      case 'match':
+        event.cards.forEach((card) => memory.delete(card.id));
+        break;
+
+      case 'actionPlayed':
+        // Nobody knows where anything is after a Regression
+        if (event.card.action === 'regression') memory.clear();
+
+        // A Hotfix pair is only shown to the bot that played it
+        if (event.playerId === bot.id) {
+          event.revealedCards?.forEach((card) =>
+            this.remember(memory, card, bot.botLevel),
+          );
+        }
+        break;
+    }
+  }
+
+  /**
+   * Adds a card to a bot's memory, dropping the oldest cards past its span
+   */
+  private remember(
+    memory: Map<string, string>,
+    card: Card,
+    level: BotLevel,
+  ): void {
+    memory.delete(card.id);
+    memory.set(card.id, card.pairId);
+
+    const { memorySpan } = BOT_SKILLS[level];
+    while (memory.size > memorySpan) {
+      memory.delete(memory.keys().next().value);
+    }
+  }
+
+  /**
+   * Schedules a bot's next flip after a human-like pause, unless one is
+   * already pending or the bot cannot play right now
+   */
+  private scheduleMove(game: GameState, bot: PlayerGameState): void {
+    const key = `${game.gameId}:${bot.id}`;
+    if (this.moveTimers.has(key) || !this.canMove(game, bot.id)) return;
+
+    const [minDelay, maxDelay] = BOT_SKILLS[bot.botLevel].delayMs;
+    const delay = minDelay + this.randomService.next() * (maxDelay - minDelay);
+
+    this.moveTimers.set(
+      key,
+      setTimeout(() => {
+        this.moveTimers.delete(key);
+
+        // The game may have moved on while the bot was thinking
+        const current = this.gameService.getGame(game.gameId);
+        if (!current || !this.canMove(current, bot.id)) return;
+
+        const cardId = this.chooseCard(current, bot);
+        if (cardId) {
+          this.gameService.handleCardFlip(current.gameId, bot.id, cardId);
+        }
+      }, delay),
+    );
+  }
+
+  /**
+   * Checks whether a bot may flip a card now
+   */
+  private canMove(game: GameState, botId: string): boolean {
+    if (game.status !== 'playing') return false;
+
+    if (game.mode === 'race') {
+      const board = game.boards[botId];
+      return !!board && !board.secondFlippedCard && !board.finishedAt;
+    }
+    return game.currentTurn === botId && !game.secondFlippedCard;
+  }
+
+  /**
+   * Picks the card a bot flips next: the partner of a face-up card or one
+   * half of a pair it recalls, otherwise a card it has not seen
+   * @returns The ID of the card, or null if no card can be flipped
+   */
+  private chooseCard(game: GameState, bot: PlayerGameState): string | null {
+    const board = game.mode === 'race' ? game.boards[bot.id] : game;
+    const hidden = board.cards.filter(
+      (card) => !card.isMatched && !card.isFlipped,
+    );
+    if (hidden.length === 0) return null;
+
+    // Forgetful bots only recall part of what they remember
+    const { recall } = BOT_SKILLS[bot.botLevel];
+    const recalled = [...this.getMemory(game.gameId, bot.id)].filter(
+      ([cardId]) =>
+        hidden.some((card) => card.id === cardId) &&
+        this.randomService.next() < recall,
+    );
+
+    const firstCard = board.cards.find(
+      (card) => card.id === board.firstFlippedCard,
+    );
+    const known = firstCard
+      ? recalled.find(([, pairId]) => pairId === firstCard.pairId)
+      : recalled.find(([cardId, pairId]) =>
+          recalled.some(
+            ([otherId, other]) => other === pairId && otherId !== cardId,
+          ),
+        );
+    if (known) return known[0];
+
+    const unseen = hidden.filter(
+      (card) => !recalled.some(([cardId]) => cardId === card.id),
+    );
+    const candidates = unseen.length > 0 ? unseen : hidden;
+    return this.randomService.pick(candidates).id;
+  }
+
+  /**
+   * Gets the bots playing in a game
+   */
+  private getBots(game: GameState): PlayerGameState[] {
+    return Object.values(game.players).filter((player) => player.botLevel);
+  }
+
+  /**
+   * Gets a bot's memory of a game, creating it if needed
+   */
+  private getMemory(gameId: string, botId: string): Map<string, string> {
+    const key = `${gameId}:${botId}`;
+    if (!this.memories.has(key)) {
+      this.memories.set(key, new Map());
+    }
+    return this.memories.get(key);
+  }
+
+  /**
+   * Drops a bot's memory and pending flip once its game is over
+   */
+  private forget(gameId: string, botId: string): void {
+    const key = `${gameId}:${botId}`;
+    clearTimeout(this.moveTimers.get(key));
+    this.moveTimers.delete(key);
+    this.memories.delete(key);
+  }
+}
@@ -1,3 +1,14 @@
+import { BugCategory } from '../../deck/entities/bug-solution-pair.entity';
+import { CustomDeckSummary } from '../../deck/entities/custom-deck.entity';
+import { DifficultyDistribution } from '../../game/entities/card.entity';
+import {
+  BoardSize,
+  BotLevel,
+  GameMode,
+  ScoringRule,
+  TeamId,
+} from '../../game/entities/game.entity';
+
 /**
  * Represents a player in a game room
  */
@@ -26,12 +37,57 @@ export interface Player {
    * Timestamp when the player joined
    */
   joinedAt: number;
+
+  /**
+   * Team the player picked (team rooms only)
+   */
+  team?: TeamId;
+
+  /**
+   * Whether the player is a server-side bot
+   */
+  isBot?: boolean;
+
+  /**
+   * Memory skill of the bot (bots only)
+   */
+  botLevel?: BotLevel;
+}
+
+/**
+ * How the board of a room's games is laid out
+ */
+export interface BoardSettings {
+  /**
+   * Size of the card grid
+   */
+  board: BoardSize;
+
+  /**
+   * Number of card pairs on the board
+   */
+  numberOfPairs: number;
+
+  /**
+   * Number of pairs at each difficulty (adds up to numberOfPairs)
+   */
+  difficultyDistribution: DifficultyDistribution;
 }
 
 /**
  * Game room settings configuration
  */
-export interface GameSettings {
+export interface GameSettings extends BoardSettings {
+  /**
+   * How games in the room are played
+   */
+  mode: GameMode;
+
+  /**
+   * How matches and misses are scored
+   */
+  scoring: ScoringRule;
+
   /**
    * Time limit for each turn in seconds
    */
@@ -46,6 +102,56 @@ export interface GameSettings {
    * Whether the room is private (requires code to join)
    */
   isPrivate: boolean;
+
+  /**
+   * Bug categories to draw cards from (all categories if empty)
+   */
+  categories: BugCategory[];
+
+  /**
+   * Tags to draw cards from (all tags if empty)
+   */
+  tags: string[];
+
+  /**
+   * Whether action cards are mixed into the board (not in races)
+   */
+  actionCards: boolean;
+
+  /**
+   * Number of games in a series: 1 for single games, or 3, 5 or 7
+   */
+  bestOf: number;
+
+  /**
+   * Custom deck attached by the host (private rooms only)
+   */
+  customDeck?: CustomDeckSummary;
+}
+
+/**
+ * Standings of a best-of-N series played in a room
+ */
+export interface SeriesStandings {
+  /**
+   * Number of games the series is played over
+   */
+  bestOf: number;
+
+  /**
+   * Games finished so far, ties included
+   */
+  gamesPlayed: number;
+
+  /**
+   * Games won by each player ID, or by each team ID in team rooms
+   */
+  wins: Record<string, number>;
+
+  /**
+   * Player or team ID that won the series, once decided
+   */
+  winner?: string;
 }
 
 /**
@@ -72,6 +178,21 @@ export interface GameRoom {
    */
   status: 'waiting' | 'playing' | 'finished';
 
+  /**
+   * ID of the game being played, or of the last game played, in the room
+   */
+  gameId?: string;
+
+  /**
+   * IDs of the players who voted for a rematch since the last game ended
+   */
+  rematchVotes: string[];
+
+  /**
+   * Standings of the current series (best-of-N rooms only)
+   */
+  series?: SeriesStandings;
+
   /**
    * Maximum number of players allowed
    */
@@ -0,0 +1,51 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+} from '@nestjs/common';
+import { DailyChallengeService } from './daily-challenge.service';
+import { DailyChallengeView } from './entities/daily-challenge.entity';
+
+/**
+ * REST endpoints for daily challenges and their leaderboards
+ */
+@Controller('daily-challenges')
+export class DailyChallengeController {
+  constructor(private readonly dailyChallengeService: DailyChallengeService) {}
+
+  /**
+   * Lists every day's challenge with its leaderboard, newest first
+   */
+  @Get()
+  listChallenges(): DailyChallengeView[] {
+    return this.dailyChallengeService.listChallenges();
+  }
+
+  /**
+   * Gets today's challenge and leaderboard so far
+   */
+  @Get('today')
+  getToday(): DailyChallengeView {
+    return this.dailyChallengeService.toView(
+      this.dailyChallengeService.getToday(),
+    );
+  }
+
+  /**
+   * Gets the challenge of a day, with its board once the day is over
+   */
+  @Get(':date')
+  getChallenge(@Param('date') date: string): DailyChallengeView {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new BadRequestException('Dates are written as YYYY-MM-DD');
+    }
+
+    const challenge = this.dailyChallengeService.getChallenge(date);
+    if (!challenge) {
+      throw new NotFoundException(`No daily challenge on ${date}`);
+    }
+    return this.dailyChallengeService.toView(challenge);
+  }
+}
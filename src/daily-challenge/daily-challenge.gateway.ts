@@ -0,0 +1,86 @@
+import {
+  OnGatewayInit,
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { DailyChallengeService } from './daily-challenge.service';
+import { GameService } from '../game/game.service';
+import { getPlayerId } from '../session/player-id';
+
+/**
+ * Gateway for playing the daily challenge
+ */
+@WebSocketGateway({
+  cors: {
+    origin: '*', // In production, replace with actual frontend URL
+  },
+})
+export class DailyChallengeGateway implements OnGatewayInit {
+  @WebSocketServer() server: Server;
+
+  constructor(
+    private readonly dailyChallengeService: DailyChallengeService,
+    private readonly gameService: GameService,
+  ) {}
+
+  /**
+   * Tells players where their finished attempt landed on the leaderboard
+   */
+  afterInit(): void {
+    this.dailyChallengeService.events$.subscribe(({ challenge, attempt }) => {
+      const leaderboard = this.dailyChallengeService.getLeaderboard(challenge);
+      this.server.to(attempt.playerId).emit('daily:result', {
+        event: 'daily:result',
+        data: {
+          date: challenge.date,
+          attempt,
+          rank: leaderboard.find((entry) => entry.nickname === attempt.nickname)
+            ?.rank,
+          leaderboard,
+        },
+      });
+    });
+  }
+
+  /**
+   * Starts the client's one attempt at today's challenge. Flips go through
+   * the usual game events.
+   * @param client - Socket client instance
+   * @param payload - Nickname to play under
+   */
+  @SubscribeMessage('daily:start')
+  async handleStart(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        nickname: string;
+      };
+    },
+  ): Promise<void> {
+    const playerId = getPlayerId(client);
+    try {
+      const game = await this.dailyChallengeService.startAttempt(
+        playerId,
+        payload.data.nickname,
+      );
+
+      // The game started before the client was in its room
+      await client.join(game.roomCode);
+      client.emit('daily:started', {
+        event: 'daily:started',
+        data: this.gameService.getPlayerView(game, playerId),
+      });
+    } catch (error) {
+      client.emit('daily:error', {
+        event: 'daily:error',
+        data: { message: error.message },
+      });
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DailyChallengeService } from './daily-challenge.service';
+import { DailyChallengeGateway } from './daily-challenge.gateway';
+import { DailyChallengeController } from './daily-challenge.controller';
+import { GameModule } from '../game/game.module';
+import { DeckModule } from '../deck/deck.module';
+import { RandomModule } from '../random/random.module';
+
+/**
+ * Module for the daily challenge and its leaderboards
+ */
+@Module({
+  imports: [GameModule, DeckModule, RandomModule],
+  controllers: [DailyChallengeController],
+  providers: [DailyChallengeService, DailyChallengeGateway],
+})
+export class DailyChallengeModule {}
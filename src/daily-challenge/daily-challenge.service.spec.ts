@@ -0,0 +1,174 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DailyChallengeService } from './daily-challenge.service';
+import { GameService } from '../game/game.service';
+import { PersonalBestService } from '../game/personal-best.service';
+import { CardPoolService } from '../ai/card-pool.service';
+import { DeckService } from '../deck/deck.service';
+import { RandomService } from '../random/random.service';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+import { GameState } from '../game/entities/game.entity';
+
+describe('DailyChallengeService', () => {
+  const deckPairs: BoardPair[] = Array.from({ length: 12 }, (_, index) => ({
+    bug: { title: `Bug ${index}`, description: `Symptom ${index}` },
+    solution: { description: `Fix ${index}`, explanation: `Reason ${index}` },
+    difficulty: (['easy', 'medium', 'hard'] as const)[index % 3],
+    category: BugCategory.GENERAL,
+  }));
+
+  let app: TestingModule;
+  let challengesPath: string;
+  let dailyChallengeService: DailyChallengeService;
+  let gameService: GameService;
+
+  const createService = async () => {
+    const path = challengesPath;
+    app = await Test.createTestingModule({
+      providers: [
+        DailyChallengeService,
+        GameService,
+        RandomService,
+        { provide: CardPoolService, useValue: {} },
+        {
+          provide: DeckService,
+          useValue: {
+            // Picks from the day's own sequence, like the real deck
+            drawPairs: (_distribution, _filter, _pairs, random) => ({
+              pairs: random.shuffle(deckPairs).slice(0, 8),
+              substitutions: [],
+              outsideFilter: 0,
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) =>
+              key === 'DAILY_CHALLENGES_PATH' ? path : fallback,
+          },
+        },
+        {
+          provide: PersonalBestService,
+          useValue: { record: jest.fn((run) => ({ best: run, isNew: true })) },
+        },
+      ],
+    }).compile();
+    await app.init();
+
+    dailyChallengeService = app.get(DailyChallengeService);
+    gameService = app.get(GameService);
+  };
+
+  // Clears the board without a miss, taking the given time
+  const playPerfectly = (game: GameState, playerId: string, ms: number) => {
+    jest.setSystemTime(Date.now() + ms);
+    game.cards
+      .filter((card) => card.type === 'bug')
+      .forEach((bug) => {
+        gameService.handleCardFlip(game.gameId, playerId, bug.id);
+        gameService.handleCardFlip(game.gameId, playerId, bug.matchingCardId);
+      });
+  };
+
+  const layout = (game: GameState) =>
+    game.cards.map((card) => card.content.title);
+
+  beforeEach(async () => {
+    jest.useFakeTimers({
+      now: new Date('2026-10-19T08:00:00Z'),
+      doNotFake: ['setTimeout', 'setImmediate'],
+    });
+    challengesPath = join(
+      mkdtempSync(join(tmpdir(), 'daily-')),
+      'daily-challenges.json',
+    );
+    await createService();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.useRealTimers();
+  });
+
+  it('should deal every player the same board, once', async () => {
+    const alice = await dailyChallengeService.startAttempt('a1', 'Alice');
+    const bob = await dailyChallengeService.startAttempt('b1', 'Bob');
+
+    expect(alice.mode).toBe('solo');
+    expect(alice.cards).toHaveLength(16);
+    expect(layout(bob)).toEqual(layout(alice));
+    expect(bob.seed).toBe(dailyChallengeService.getToday().seed);
+    await expect(
+      dailyChallengeService.startAttempt('a1', 'Someone else'),
+    ).rejects.toThrow("already played today's challenge");
+    await expect(
+      dailyChallengeService.startAttempt('a2', ' alice '),
+    ).rejects.toThrow("alice is already on today's challenge");
+  });
+
+  it('should hold a player to one attempt across a restart', async () => {
+    await dailyChallengeService.startAttempt('a1', 'Alice');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await app.close();
+    await createService();
+
+    // Attempts are kept by player ID, which sessions keep across restarts
+    await expect(
+      dailyChallengeService.startAttempt('a1', 'Alicia'),
+    ).rejects.toThrow("already played today's challenge");
+    expect(dailyChallengeService.getToday().attempts).toMatchObject([
+      { playerId: 'a1', nickname: 'Alice', status: 'abandoned' },
+    ]);
+  });
+
+  it('should rank finished attempts by time, leaving out abandoned ones', async () => {
+    const alice = await dailyChallengeService.startAttempt('a1', 'Alice');
+    const bob = await dailyChallengeService.startAttempt('b1', 'Bob');
+    const carol = await dailyChallengeService.startAttempt('c1', 'Carol');
+
+    playPerfectly(bob, 'b1', 30000);
+    playPerfectly(alice, 'a1', 40000);
+    gameService.forfeitGame(carol.gameId, 'c1');
+
+    const today = dailyChallengeService.toView(
+      dailyChallengeService.getToday(),
+    );
+    expect(today.attempts).toBe(3);
+    expect(today.leaderboard).toEqual([
+      { rank: 1, nickname: 'Bob', elapsedMs: 30000, flips: 16 },
+      { rank: 2, nickname: 'Alice', elapsedMs: 70000, flips: 16 },
+    ]);
+    expect(today.seed).toBeUndefined();
+    expect(today.pairs).toBeUndefined();
+  });
+
+  it('should keep past days with their boards after a restart', async () => {
+    const alice = await dailyChallengeService.startAttempt('a1', 'Alice');
+    playPerfectly(alice, 'a1', 20000);
+    const { seed } = dailyChallengeService.getToday();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    jest.setSystemTime(new Date('2026-10-20T08:00:00Z'));
+    await app.close();
+    await createService();
+
+    const yesterday = dailyChallengeService.toView(
+      dailyChallengeService.getChallenge('2026-10-19'),
+    );
+    expect(yesterday.seed).toBe(seed);
+    expect(yesterday.pairs).toHaveLength(8);
+    expect(yesterday.leaderboard.map((entry) => entry.nickname)).toEqual([
+      'Alice',
+    ]);
+    expect(dailyChallengeService.getToday().date).toBe('2026-10-20');
+    expect(dailyChallengeService.getChallenge('2026-10-18')).toBeNull();
+  });
+});
@@ -0,0 +1,351 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { DeckService } from '../deck/deck.service';
+import { GameService } from '../game/game.service';
+import { GameEvent, GameState } from '../game/entities/game.entity';
+import {
+  DEFAULT_TURN_TIME_LIMIT,
+  resolveBoardSettings,
+} from '../game/board-settings';
+import { RandomService } from '../random/random.service';
+import {
+  DailyAttempt,
+  DailyChallenge,
+  DailyChallengeEvent,
+  DailyChallengeView,
+  DailyLeaderboardEntry,
+} from './entities/daily-challenge.entity';
+
+/**
+ * Pairs on every daily board
+ */
+export const DAILY_PAIRS = 8;
+
+/**
+ * Service running the daily challenge: one seeded board a day, one solo
+ * attempt per player, and a leaderboard per day
+ */
+@Injectable()
+export class DailyChallengeService implements OnModuleInit, OnModuleDestroy {
+  // Keyed by date
+  private challenges: Map<string, DailyChallenge> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+  private subscription: Subscription;
+  private readonly events = new Subject<DailyChallengeEvent>();
+
+  /**
+   * Attempts as they finish
+   */
+  readonly events$: Observable<DailyChallengeEvent> =
+    this.events.asObservable();
+
+  constructor(
+    private readonly gameService: GameService,
+    private readonly deckService: DeckService,
+    private readonly randomService: RandomService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  /**
+   * Restores past challenges and starts following attempts
+   */
+  async onModuleInit(): Promise<void> {
+    await this.load();
+    this.subscription = this.gameService.events$.subscribe((event) =>
+      this.handleGameEvent(event),
+    );
+  }
+
+  /**
+   * Stops following attempts when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.events.complete();
+  }
+
+  /**
+   * Gets today's challenge, dealing its board on the first request of the day
+   * @returns The challenge of the current UTC day
+   */
+  getToday(): DailyChallenge {
+    const date = this.today();
+    if (!this.challenges.has(date)) {
+      this.challenges.set(date, this.createChallenge(date));
+      this.persist();
+    }
+    return this.challenges.get(date);
+  }
+
+  /**
+   * Gets the challenge of a day
+   * @param date - Day as YYYY-MM-DD
+   * @returns The challenge or null if nobody played that day
+   */
+  getChallenge(date: string): DailyChallenge | null {
+    return date === this.today()
+      ? this.getToday()
+      : this.challenges.get(date) || null;
+  }
+
+  /**
+   * Lists every day with a challenge, newest first
+   */
+  listChallenges(): DailyChallengeView[] {
+    return [...this.challenges.values()]
+      .sort((a, b) => b.date.localeCompare(a.date))
+      .map((challenge) => this.toView(challenge));
+  }
+
+  /**
+   * Shows a challenge to players, holding back today's board
+   * @param challenge - The challenge
+   * @returns The challenge with its leaderboard
+   */
+  toView(challenge: DailyChallenge): DailyChallengeView {
+    const isPast = challenge.date < this.today();
+    return {
+      date: challenge.date,
+      board: challenge.board,
+      difficultyDistribution: challenge.difficultyDistribution,
+      attempts: challenge.attempts.length,
+      leaderboard: this.getLeaderboard(challenge),
+      seed: isPast ? challenge.seed : undefined,
+      pairs: isPast ? challenge.pairs : undefined,
+    };
+  }
+
+  /**
+   * Ranks the completed attempts of a challenge: fastest first, then fewest
+   * flips, then whoever finished first
+   * @param challenge - The challenge
+   * @returns The leaderboard
+   */
+  getLeaderboard(challenge: DailyChallenge): DailyLeaderboardEntry[] {
+    return challenge.attempts
+      .filter((attempt) => attempt.status === 'completed')
+      .sort(
+        (a, b) =>
+          a.elapsedMs - b.elapsedMs ||
+          a.flips - b.flips ||
+          a.finishedAt - b.finishedAt,
+      )
+      .map((attempt, index) => ({
+        rank: index + 1,
+        nickname: attempt.nickname,
+        elapsedMs: attempt.elapsedMs,
+        flips: attempt.flips,
+      }));
+  }
+
+  /**
+   * Starts a player's attempt at today's challenge as a solo game
+   * @param playerId - ID of the player
+   * @param nickname - Nickname of the player
+   * @returns The solo game of the attempt
+   * @throws Error if the player already attempted today's challenge, or the
+   * nickname is taken on its leaderboard
+   */
+  async startAttempt(playerId: string, nickname: string): Promise<GameState> {
+    const name = nickname?.trim();
+    if (!name) throw new Error('A nickname is required');
+
+    const challenge = this.getToday();
+    if (challenge.attempts.some((attempt) => attempt.playerId === playerId)) {
+      throw new Error("You have already played today's challenge");
+    }
+    // Nicknames only need to tell leaderboard entries apart
+    if (
+      challenge.attempts.some(
+        (attempt) => attempt.nickname.toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      throw new Error(`${name} is already on today's challenge`);
+    }
+
+    // Taken before the game is dealt, so a second request cannot slip in
+    const attempt: DailyAttempt = {
+      playerId,
+      nickname: name,
+      gameId: null,
+      status: 'playing',
+      startedAt: Date.now(),
+    };
+    challenge.attempts.push(attempt);
+
+    try {
+      const game = await this.gameService.createGame(
+        `DAILY-${challenge.date}-${playerId}`,
+        [{ id: playerId, nickname: name }],
+        {
+          mode: 'solo',
+          numberOfPairs: challenge.pairs.length,
+          turnTimeLimit: DEFAULT_TURN_TIME_LIMIT,
+          difficultyDistribution: challenge.difficultyDistribution,
+          board: challenge.board,
+          boardPairs: challenge.pairs,
+          seed: challenge.seed,
+          ranked: true,
+        },
+      );
+      attempt.gameId = game.gameId;
+      attempt.startedAt = game.startedAt;
+      this.persist();
+      return game;
+    } catch (error) {
+      challenge.attempts.splice(challenge.attempts.indexOf(attempt), 1);
+      throw error;
+    }
+  }
+
+  /**
+   * Records the result of an attempt when its game is over
+   */
+  private handleGameEvent(event: GameEvent): void {
+    if (event.type !== 'gameOver') return;
+
+    const game = event.gameState;
+    for (const challenge of this.challenges.values()) {
+      const attempt = challenge.attempts.find(
+        (a) => a.status === 'playing' && a.gameId === game.gameId,
+      );
+      if (!attempt) continue;
+
+      attempt.finishedAt = Date.now();
+      if (game.timeAttack) {
+        attempt.status = 'completed';
+        attempt.elapsedMs = game.timeAttack.elapsedMs;
+        attempt.flips = game.timeAttack.flips;
+      } else {
+        attempt.status = 'abandoned';
+      }
+
+      this.persist();
+      this.events.next({ type: 'attemptFinished', challenge, attempt });
+      return;
+    }
+  }
+
+  /**
+   * Deals the board of a day: its own seed picks the pairs from the curated
+   * deck, and later shuffles the cards of every attempt the same way
+   */
+  private createChallenge(date: string): DailyChallenge {
+    const seed = this.randomService.createSeed();
+    const { board, difficultyDistribution } = resolveBoardSettings({
+      numberOfPairs: DAILY_PAIRS,
+    });
+    const { pairs, substitutions } = this.deckService.drawPairs(
+      difficultyDistribution,
+      {},
+      undefined,
+      this.randomService.forSeed(seed),
+    );
+    if (substitutions.length > 0) {
+      console.warn(`Daily challenge ${date} mix adjusted:`, substitutions);
+    }
+
+    console.log(`Dealt the daily challenge for ${date}`);
+    return {
+      date,
+      seed,
+      board,
+      // What was actually dealt, after any substitutions
+      difficultyDistribution: pairs.reduce(
+        (acc, pair) => {
+          acc[pair.difficulty]++;
+          return acc;
+        },
+        { easy: 0, medium: 0, hard: 0 },
+      ),
+      pairs,
+      attempts: [],
+    };
+  }
+
+  /**
+   * Gets the current UTC day as YYYY-MM-DD
+   */
+  private today(): string {
+    return new Date().toISOString().slice(0, 10);
+  }
+
+  /**
+   * Saves in the background, logging failures
+   */
+  private persist(): void {
+    this.save().catch((error) =>
+      console.error('Failed to save daily challenges:', error),
+    );
+  }
+
+  /**
+   * Restores challenges from disk. Games do not survive a restart, so
+   * attempts still being played are abandoned.
+   */
+  private async load(): Promise<void> {
+    const challengesPath = this.getChallengesPath();
+
+    let raw: string;
+    try {
+      raw = await readFile(challengesPath, 'utf8');
+    } catch {
+      return; // Nothing saved yet
+    }
+
+    try {
+      const challenges: DailyChallenge[] = JSON.parse(raw).challenges ?? [];
+      challenges.forEach((challenge) => {
+        challenge.attempts
+          .filter((attempt) => attempt.status === 'playing')
+          .forEach((attempt) => (attempt.status = 'abandoned'));
+        this.challenges.set(challenge.date, challenge);
+      });
+      console.log(
+        `Restored ${challenges.length} daily challenges from ${challengesPath}`,
+      );
+    } catch (error) {
+      console.error('Ignoring unreadable daily challenges file:', error);
+    }
+  }
+
+  /**
+   * Saves all challenges to disk, one write at a time
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.writeChallenges());
+    return this.saving;
+  }
+
+  /**
+   * Writes all challenges to their file
+   */
+  private async writeChallenges(): Promise<void> {
+    const challengesPath = this.getChallengesPath();
+    const challenges = [...this.challenges.values()];
+
+    await mkdir(dirname(challengesPath), { recursive: true });
+    await writeFile(
+      `${challengesPath}.tmp`,
+      JSON.stringify({ challenges }, null, 2),
+    );
+    await rename(`${challengesPath}.tmp`, challengesPath);
+  }
+
+  /**
+   * Gets the absolute path of the daily challenges file
+   */
+  private getChallengesPath(): string {
+    return resolve(
+      this.configService.get<string>(
+        'DAILY_CHALLENGES_PATH',
+        'data/daily-challenges.json',
+      ),
+    );
+  }
+}
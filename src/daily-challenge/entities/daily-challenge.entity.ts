@@ -0,0 +1,165 @@
+import { BoardPair } from '../../deck/entities/bug-solution-pair.entity';
+import { DifficultyDistribution } from '../../game/entities/card.entity';
+import { BoardSize } from '../../game/entities/game.entity';
+
+/**
+ * Stage of a player's attempt: still on the board, cleared it, or gave up
+ * (forfeited, disconnected or cut off by a restart)
+ */
+export type DailyAttemptStatus = 'playing' | 'completed' | 'abandoned';
+
+/**
+ * A player's one attempt at a daily challenge
+ */
+export interface DailyAttempt {
+  /**
+   * ID of the player
+   */
+  playerId: string;
+
+  /**
+   * Nickname the attempt was played under, unique within the day
+   */
+  nickname: string;
+
+  /**
+   * ID of the solo game of the attempt
+   */
+  gameId: string;
+
+  /**
+   * Stage of the attempt
+   */
+  status: DailyAttemptStatus;
+
+  /**
+   * Time taken to clear the board in milliseconds (completed attempts)
+   */
+  elapsedMs?: number;
+
+  /**
+   * Number of cards flipped (completed attempts)
+   */
+  flips?: number;
+
+  /**
+   * Timestamp when the attempt started
+   */
+  startedAt: number;
+
+  /**
+   * Timestamp when the attempt ended
+   */
+  finishedAt?: number;
+}
+
+/**
+ * The board everyone plays on one day
+ */
+export interface DailyChallenge {
+  /**
+   * Day of the challenge (UTC), as YYYY-MM-DD
+   */
+  date: string;
+
+  /**
+   * Seed the board is shuffled with
+   */
+  seed: number;
+
+  /**
+   * Size of the card grid
+   */
+  board: BoardSize;
+
+  /**
+   * Number of pairs at each difficulty
+   */
+  difficultyDistribution: DifficultyDistribution;
+
+  /**
+   * Pairs on the board, kept so the board stays the same if the deck changes
+   */
+  pairs: BoardPair[];
+
+  /**
+   * Every attempt of the day, in the order they started
+   */
+  attempts: DailyAttempt[];
+}
+
+/**
+ * A completed attempt on the leaderboard of a day
+ */
+export interface DailyLeaderboardEntry {
+  /**
+   * Place on the leaderboard, starting at 1
+   */
+  rank: number;
+
+  /**
+   * Nickname of the player
+   */
+  nickname: string;
+
+  /**
+   * Time taken to clear the board in milliseconds
+   */
+  elapsedMs: number;
+
+  /**
+   * Number of cards flipped
+   */
+  flips: number;
+}
+
+/**
+ * A daily challenge as shown to players. The seed and pairs of the current
+ * day are held back so the board cannot be looked up ahead of playing.
+ */
+export interface DailyChallengeView {
+  /**
+   * Day of the challenge (UTC), as YYYY-MM-DD
+   */
+  date: string;
+
+  /**
+   * Size of the card grid
+   */
+  board: BoardSize;
+
+  /**
+   * Number of pairs at each difficulty
+   */
+  difficultyDistribution: DifficultyDistribution;
+
+  /**
+   * Number of players who attempted the challenge
+   */
+  attempts: number;
+
+  /**
+   * Completed attempts, fastest first
+   */
+  leaderboard: DailyLeaderboardEntry[];
+
+  /**
+   * Seed the board is shuffled with (past days only)
+   */
+  seed?: number;
+
+  /**
+   * Pairs on the board (past days only)
+   */
+  pairs?: BoardPair[];
+}
+
+/**
+ * Something that happened in a daily challenge, published by
+ * DailyChallengeService for the gateway to relay
+ */
+export type DailyChallengeEvent = {
+  type: 'attemptFinished';
+  challenge: DailyChallenge;
+  attempt: DailyAttempt;
+};
@@ -0,0 +1,68 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { CustomDeckService } from './custom-deck.service';
+import { DeckValidationError } from './deck-validation.error';
+import { CustomDeck, CustomDeckSummary } from './entities/custom-deck.entity';
+
+/**
+ * REST endpoints for saving decks that hosts can attach to private rooms
+ */
+@Controller('custom-decks')
+export class CustomDeckController {
+  constructor(private readonly customDeckService: CustomDeckService) {}
+
+  /**
+   * Saves a deck and returns it with its new ID
+   */
+  @Post()
+  async saveDeck(@Body() body: unknown): Promise<CustomDeck> {
+    try {
+      return await this.customDeckService.saveDeck(body);
+    } catch (error) {
+      if (error instanceof DeckValidationError) {
+        throw new BadRequestException(error.problems);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Lists saved decks without their pairs
+   */
+  @Get()
+  listDecks(): CustomDeckSummary[] {
+    return this.customDeckService.listDecks();
+  }
+
+  /**
+   * Gets a saved deck
+   */
+  @Get(':id')
+  getDeck(@Param('id') id: string): CustomDeck {
+    const deck = this.customDeckService.getDeck(id);
+    if (!deck) {
+      throw new NotFoundException(`Deck ${id} not found`);
+    }
+    return deck;
+  }
+
+  /**
+   * Removes a saved deck
+   */
+  @Delete(':id')
+  @HttpCode(204)
+  async deleteDeck(@Param('id') id: string): Promise<void> {
+    if (!(await this.customDeckService.deleteDeck(id))) {
+      throw new NotFoundException(`Deck ${id} not found`);
+    }
+  }
+}
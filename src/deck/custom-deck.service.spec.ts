@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { CustomDeckService } from './custom-deck.service';
+import { DeckValidationError } from './deck-validation.error';
+import { BugSolutionPair } from './entities/bug-solution-pair.entity';
+
+describe('CustomDeckService', () => {
+  let decksPath: string;
+  let customDeckService: CustomDeckService;
+  let curatedPairs: BugSolutionPair[];
+
+  beforeEach(async () => {
+    decksPath = join(mkdtempSync(join(tmpdir(), 'decks-')), 'decks.json');
+    curatedPairs = JSON.parse(
+      readFileSync(join(process.cwd(), 'data', 'bugs.json'), 'utf8'),
+    ).pairs;
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        CustomDeckService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => decksPath },
+        },
+      ],
+    }).compile();
+
+    customDeckService = app.get<CustomDeckService>(CustomDeckService);
+  });
+
+  it('should save a deck and resolve it by ID', async () => {
+    const deck = await customDeckService.saveDeck({
+      name: 'Team favourites',
+      pairs: curatedPairs.slice(0, 6),
+    });
+
+    const saved = JSON.parse(readFileSync(decksPath, 'utf8'));
+    expect(saved.decks[0].id).toBe(deck.id);
+
+    const { pairs, summary } = customDeckService.resolve({ deckId: deck.id });
+    expect(pairs).toHaveLength(6);
+    expect(summary).toEqual({
+      deckId: deck.id,
+      name: 'Team favourites',
+      pairCount: 6,
+    });
+  });
+
+  it('should reject decks with too few pairs', () => {
+    expect(() =>
+      customDeckService.resolve({ pairs: curatedPairs.slice(0, 3) }),
+    ).toThrow(DeckValidationError);
+  });
+
+  it('should reject fields that are too long', () => {
+    const pairs = curatedPairs.slice(0, 6).map((pair) => ({ ...pair }));
+    pairs[0] = {
+      ...pairs[0],
+      bug: { ...pairs[0].bug, title: 'x'.repeat(500) },
+    };
+
+    try {
+      customDeckService.resolve({ pairs });
+      fail('Expected the deck to be rejected');
+    } catch (error) {
+      expect(error).toBeInstanceOf(DeckValidationError);
+      expect(error.problems[0]).toMatch(/^pairs\.0\.bug\.title:/);
+    }
+  });
+
+  it('should fail for unknown saved decks', () => {
+    expect(() => customDeckService.resolve({ deckId: 'missing' })).toThrow(
+      'Deck missing not found',
+    );
+  });
+});
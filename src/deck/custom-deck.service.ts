@@ -0,0 +1,177 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { validateDeck } from './deck-validation';
+import { DeckValidationError } from './deck-validation.error';
+import { CustomDeckDto } from './dto/custom-deck.dto';
+import { BugSolutionPair } from './entities/bug-solution-pair.entity';
+import {
+  CustomDeck,
+  CustomDeckSource,
+  CustomDeckSummary,
+} from './entities/custom-deck.entity';
+
+/**
+ * Service responsible for host-uploaded decks
+ */
+@Injectable()
+export class CustomDeckService implements OnModuleInit {
+  private decks: Map<string, CustomDeck> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Restores saved decks when the module starts
+   */
+  async onModuleInit(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * Validates and saves a deck for later use
+   * @param raw - Plain deck content with a name and pairs
+   * @returns The saved deck
+   * @throws DeckValidationError if the deck is invalid
+   */
+  async saveDeck(raw: unknown): Promise<CustomDeck> {
+    const { name, pairs } = validateDeck(CustomDeckDto, raw);
+    const deck: CustomDeck = {
+      id: uuidv4(),
+      name,
+      pairs,
+      createdAt: Date.now(),
+    };
+
+    this.decks.set(deck.id, deck);
+    await this.save();
+    return deck;
+  }
+
+  /**
+   * Lists saved decks without their pairs
+   */
+  listDecks(): CustomDeckSummary[] {
+    return [...this.decks.values()].map((deck) => this.summarize(deck));
+  }
+
+  /**
+   * Gets a saved deck by ID
+   * @param id - ID of the deck
+   * @returns The deck or null if not found
+   */
+  getDeck(id: string): CustomDeck | null {
+    return this.decks.get(id) || null;
+  }
+
+  /**
+   * Removes a saved deck
+   * @param id - ID of the deck
+   * @returns Whether the deck existed
+   */
+  async deleteDeck(id: string): Promise<boolean> {
+    if (!this.decks.delete(id)) return false;
+
+    await this.save();
+    return true;
+  }
+
+  /**
+   * Resolves inline pairs or a saved deck reference into validated pairs
+   * @param source - Inline pairs or the ID of a saved deck
+   * @returns The pairs and a summary that can be shown to players
+   * @throws DeckValidationError if the inline pairs are invalid
+   * @throws Error if the saved deck does not exist
+   */
+  resolve(source: CustomDeckSource): {
+    pairs: BugSolutionPair[];
+    summary: CustomDeckSummary;
+  } {
+    if (source.deckId) {
+      const deck = this.getDeck(source.deckId);
+      if (!deck) {
+        throw new Error(`Deck ${source.deckId} not found`);
+      }
+      return { pairs: deck.pairs, summary: this.summarize(deck) };
+    }
+
+    const { name, pairs } = validateDeck(CustomDeckDto, {
+      name: source.name || 'Custom deck',
+      pairs: source.pairs,
+    });
+    return { pairs, summary: { name, pairCount: pairs.length } };
+  }
+
+  /**
+   * Describes a saved deck without revealing its pairs
+   */
+  private summarize(deck: CustomDeck): CustomDeckSummary {
+    return { deckId: deck.id, name: deck.name, pairCount: deck.pairs.length };
+  }
+
+  /**
+   * Restores saved decks from disk, skipping invalid ones
+   */
+  private async load(): Promise<void> {
+    const decksPath = this.getDecksPath();
+
+    let raw: string;
+    try {
+      raw = await readFile(decksPath, 'utf8');
+    } catch {
+      return; // Nothing saved yet
+    }
+
+    try {
+      const decks: CustomDeck[] = JSON.parse(raw).decks ?? [];
+      decks.forEach((deck) => {
+        try {
+          const { name, pairs } = validateDeck(CustomDeckDto, deck);
+          this.decks.set(deck.id, { ...deck, name, pairs });
+        } catch (error) {
+          if (!(error instanceof DeckValidationError)) throw error;
+          console.warn(`Skipping invalid saved deck ${deck.id}:`, error);
+        }
+      });
+      console.log(`Restored ${this.decks.size} custom decks from ${decksPath}`);
+    } catch (error) {
+      console.error('Ignoring unreadable custom decks file:', error);
+    }
+  }
+
+  /**
+   * Saves all decks to disk, one write at a time
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.writeDecks());
+    return this.saving;
+  }
+
+  /**
+   * Writes all decks to their file
+   */
+  private async writeDecks(): Promise<void> {
+    const decksPath = this.getDecksPath();
+    const decks = [...this.decks.values()];
+
+    await mkdir(dirname(decksPath), { recursive: true });
+    await writeFile(`${decksPath}.tmp`, JSON.stringify({ decks }, null, 2));
+    await rename(`${decksPath}.tmp`, decksPath);
+  }
+
+  /**
+   * Gets the absolute path of the custom decks file
+   */
+  private getDecksPath(): string {
+    return resolve(
+      this.configService.get<string>(
+        'CUSTOM_DECKS_PATH',
+        'data/custom-decks.json',
+      ),
+    );
+  }
+}
@@ -0,0 +1,145 @@
+import { BugSolutionPair } from './entities/bug-solution-pair.entity';
+
+/**
+ * Column order of the CSV deck format
+ */
+const COLUMNS = [
+  'id',
+  'bug_id',
+  'title',
+  'description',
+  'category',
+  'difficulty',
+  'tags',
+  'solution_id',
+  'solution_description',
+  'code',
+  'explanation',
+];
+
+/**
+ * Separator between tags inside the tags column
+ */
+const TAG_SEPARATOR = ';';
+
+/**
+ * Serializes pairs as CSV with one pair per row
+ * @param pairs - Pairs to export
+ * @returns CSV text including a header row
+ */
+export function pairsToCsv(pairs: BugSolutionPair[]): string {
+  const rows = pairs.map((pair) => [
+    pair.id,
+    pair.bug.id,
+    pair.bug.title,
+    pair.bug.description,
+    pair.bug.category,
+    pair.bug.difficulty,
+    pair.bug.tags.join(TAG_SEPARATOR),
+    pair.solution.id,
+    pair.solution.description,
+    pair.solution.code ?? '',
+    pair.solution.explanation,
+  ]);
+
+  return [COLUMNS, ...rows]
+    .map((row) => row.map((value) => escapeField(value)).join(','))
+    .join('\n');
+}
+
+/**
+ * Parses CSV produced by pairsToCsv back into plain pair objects. The result
+ * still needs validation.
+ * @param csv - CSV text including a header row
+ * @returns One plain object per data row
+ * @throws Error if required columns are missing
+ */
+export function csvToPairs(csv: string): unknown[] {
+  const [header, ...rows] = parseRows(csv).filter((row) =>
+    row.some((value) => value.trim() !== ''),
+  );
+  if (!header) return [];
+
+  const missing = COLUMNS.filter(
+    (column) => column !== 'code' && !header.includes(column),
+  );
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map((row) => {
+    const field = (column: string) => row[header.indexOf(column)] ?? '';
+    return {
+      id: field('id'),
+      bug: {
+        id: field('bug_id'),
+        title: field('title'),
+        description: field('description'),
+        category: field('category'),
+        difficulty: field('difficulty'),
+        tags: field('tags')
+          .split(TAG_SEPARATOR)
+          .map((tag) => tag.trim())
+          .filter((tag) => tag.length > 0),
+      },
+      solution: {
+        id: field('solution_id'),
+        description: field('solution_description'),
+        code: field('code') || undefined,
+        explanation: field('explanation'),
+      },
+    };
+  });
+}
+
+/**
+ * Quotes a field if it contains separators, quotes or line breaks
+ */
+function escapeField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Splits CSV text into rows of fields, honoring quoted fields
+ */
+function parseRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
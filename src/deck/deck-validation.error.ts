@@ -0,0 +1,32 @@
+import { ValidationError } from 'class-validator';
+
+/**
+ * Thrown when deck content fails validation
+ */
+export class DeckValidationError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid deck: ${problems.join('; ')}`);
+    this.name = 'DeckValidationError';
+  }
+}
+
+/**
+ * Flattens nested class-validator errors into readable messages
+ * @param errors - Errors returned by class-validator
+ * @param parentPath - Property path of the parent object
+ * @returns One message per failed constraint, prefixed with its property path
+ */
+export function formatValidationErrors(
+  errors: ValidationError[],
+  parentPath = '',
+): string[] {
+  return errors.flatMap((error) => {
+    const path = parentPath
+      ? `${parentPath}.${error.property}`
+      : error.property;
+    const messages = Object.values(error.constraints ?? {}).map(
+      (message) => `${path}: ${message}`,
+    );
+    return [...messages, ...formatValidationErrors(error.children ?? [], path)];
+  });
+}
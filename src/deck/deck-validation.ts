@@ -0,0 +1,37 @@
+import { ClassConstructor, plainToInstance } from 'class-transformer';
+import { validateSync } from 'class-validator';
+import {
+  DeckValidationError,
+  formatValidationErrors,
+} from './deck-validation.error';
+import { BugSolutionPair } from './entities/bug-solution-pair.entity';
+
+/**
+ * Validates raw deck content against a deck schema and checks that pair IDs
+ * are unique
+ * @param schema - Validation schema with a `pairs` property
+ * @param raw - Plain deck content
+ * @returns The validated deck
+ * @throws DeckValidationError listing every problem found
+ */
+export function validateDeck<T extends { pairs: BugSolutionPair[] }>(
+  schema: ClassConstructor<T>,
+  raw: unknown,
+): T {
+  const deck = plainToInstance(schema, raw);
+  const problems = formatValidationErrors(validateSync(deck));
+
+  const seenIds = new Set<string>();
+  (Array.isArray(deck.pairs) ? deck.pairs : []).forEach((pair, index) => {
+    if (pair?.id && seenIds.has(pair.id)) {
+      problems.push(`pairs.${index}.id: duplicate pair id ${pair.id}`);
+    }
+    seenIds.add(pair?.id);
+  });
+
+  if (problems.length > 0) {
+    throw new DeckValidationError(problems);
+  }
+
+  return deck;
+}
@@ -0,0 +1,172 @@
+import {
+  BadRequestException,
+  Body,
+  ConflictException,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  NotFoundException,
+  Param,
+  Post,
+  Put,
+  Query,
+  Res,
+} from '@nestjs/common';
+import { Response } from 'express';
+import { DeckService } from './deck.service';
+import { csvToPairs, pairsToCsv } from './deck-csv';
+import { DeckValidationError } from './deck-validation.error';
+import { BugSolutionPairDto } from './dto/bug-solution-pair.dto';
+import {
+  ExportPairsQueryDto,
+  ImportPairsQueryDto,
+  ListPairsQueryDto,
+} from './dto/deck-query.dto';
+import { BugSolutionPair } from './entities/bug-solution-pair.entity';
+
+/**
+ * REST endpoints for curating the bug-solution deck
+ */
+@Controller('deck')
+export class DeckController {
+  constructor(private readonly deckService: DeckService) {}
+
+  /**
+   * Lists pairs, optionally filtered by category, tag and difficulty
+   */
+  @Get('pairs')
+  listPairs(@Query() query: ListPairsQueryDto): BugSolutionPair[] {
+    return this.deckService.findPairs(
+      {
+        categories: query.category ? [query.category] : [],
+        tags: query.tag ? [query.tag] : [],
+      },
+      query.difficulty,
+    );
+  }
+
+  /**
+   * Gets a single pair
+   */
+  @Get('pairs/:id')
+  getPair(@Param('id') id: string): BugSolutionPair {
+    const pair = this.deckService.getPair(id);
+    if (!pair) {
+      throw new NotFoundException(`Pair ${id} not found`);
+    }
+    return pair;
+  }
+
+  /**
+   * Adds a pair to the deck
+   */
+  @Post('pairs')
+  async createPair(@Body() pair: BugSolutionPairDto): Promise<BugSolutionPair> {
+    if (this.deckService.getPair(pair.id)) {
+      throw new ConflictException(`Pair ${pair.id} already exists`);
+    }
+    return this.handleValidation(() => this.deckService.createPair(pair));
+  }
+
+  /**
+   * Replaces a pair in the deck
+   */
+  @Put('pairs/:id')
+  async updatePair(
+    @Param('id') id: string,
+    @Body() pair: BugSolutionPairDto,
+  ): Promise<BugSolutionPair> {
+    if (pair.id !== id) {
+      throw new BadRequestException('Pair ID in body must match the URL');
+    }
+
+    const updated = await this.handleValidation(() =>
+      this.deckService.updatePair(id, pair),
+    );
+    if (!updated) {
+      throw new NotFoundException(`Pair ${id} not found`);
+    }
+    return updated;
+  }
+
+  /**
+   * Removes a pair from the deck
+   */
+  @Delete('pairs/:id')
+  @HttpCode(204)
+  async deletePair(@Param('id') id: string): Promise<void> {
+    const deleted = await this.handleValidation(() =>
+      this.deckService.deletePair(id),
+    );
+    if (!deleted) {
+      throw new NotFoundException(`Pair ${id} not found`);
+    }
+  }
+
+  /**
+   * Imports pairs in bulk from a JSON deck or a CSV file
+   */
+  @Post('import')
+  async importPairs(
+    @Headers('content-type') contentType: string,
+    @Body() body: string | unknown[] | { pairs?: unknown[] },
+    @Query() query: ImportPairsQueryDto,
+  ): Promise<{ created: number; updated: number; total: number }> {
+    let pairs: unknown[];
+    if (contentType?.startsWith('text/csv')) {
+      try {
+        pairs = csvToPairs(typeof body === 'string' ? body : '');
+      } catch (error) {
+        throw new BadRequestException(error.message);
+      }
+    } else if (Array.isArray(body)) {
+      pairs = body;
+    } else if (typeof body === 'object') {
+      pairs = body?.pairs;
+    }
+
+    if (!Array.isArray(pairs) || pairs.length === 0) {
+      throw new BadRequestException('No pairs to import');
+    }
+
+    return this.handleValidation(() =>
+      this.deckService.importPairs(pairs, query.mode ?? 'merge'),
+    );
+  }
+
+  /**
+   * Exports the whole deck as JSON or CSV
+   */
+  @Get('export')
+  exportPairs(
+    @Query() query: ExportPairsQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ): { pairs: BugSolutionPair[] } | string {
+    const pairs = this.deckService.getPairs();
+
+    if (query.format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', 'attachment; filename="bugs.csv"');
+      return pairsToCsv(pairs);
+    }
+
+    res.setHeader('Content-Disposition', 'attachment; filename="bugs.json"');
+    return { pairs };
+  }
+
+  /**
+   * Turns deck validation failures into 400 responses
+   */
+  private async handleValidation<T>(action: () => Promise<T>): Promise<T> {
+    try {
+      return await action();
+    } catch (error) {
+      if (error instanceof DeckValidationError) {
+        throw new BadRequestException(error.problems);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,17 @@
+import { Module } from '@nestjs/common';
+import { DeckService } from './deck.service';
+import { DeckController } from './deck.controller';
+import { CustomDeckService } from './custom-deck.service';
+import { CustomDeckController } from './custom-deck.controller';
+import { RandomModule } from '../random/random.module';
+
+/**
+ * Module for the curated bug-solution deck and host-uploaded decks
+ */
+@Module({
+  imports: [RandomModule],
+  controllers: [DeckController, CustomDeckController],
+  providers: [DeckService, CustomDeckService],
+  exports: [DeckService, CustomDeckService],
+})
+export class DeckModule {}
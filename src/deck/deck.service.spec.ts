@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { copyFileSync, mkdtempSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DeckService } from './deck.service';
+import { RandomService } from '../random/random.service';
+import { DeckValidationError } from './deck-validation.error';
+import { csvToPairs, pairsToCsv } from './deck-csv';
+import { BugCategory } from './entities/bug-solution-pair.entity';
+
+describe('DeckService', () => {
+  let deckPath: string;
+  let deckService: DeckService;
+
+  beforeEach(async () => {
+    deckPath = join(process.cwd(), 'data', 'bugs.json');
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeckService,
+        RandomService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => deckPath },
+        },
+      ],
+    }).compile();
+
+    deckService = app.get<DeckService>(DeckService);
+  });
+
+  describe('load', () => {
+    it('should load the curated deck', async () => {
+      await deckService.load();
+      expect(deckService.getPairs()).toHaveLength(24);
+    });
+
+    it('should reject invalid pairs', async () => {
+      deckPath = join(mkdtempSync(join(tmpdir(), 'deck-')), 'bugs.json');
+      writeFileSync(
+        deckPath,
+        JSON.stringify({
+          pairs: [
+            {
+              id: 'pair_001',
+              bug: { id: 'bug_001', title: '', difficulty: 'extreme' },
+              solution: { id: 'sol_001', description: 'Fix it' },
+            },
+          ],
+        }),
+      );
+
+      await expect(deckService.load()).rejects.toThrow(DeckValidationError);
+    });
+  });
+
+  describe('drawPairs', () => {
+    it('should draw distinct board pairs', async () => {
+      await deckService.load();
+      const { pairs } = deckService.drawPairs({ easy: 2, medium: 2, hard: 2 });
+
+      expect(pairs).toHaveLength(6);
+      expect(new Set(pairs.map((pair) => pair.bug.title)).size).toBe(6);
+    });
+
+    it('should honor the difficulty distribution', async () => {
+      await deckService.load();
+      const { pairs, substitutions } = deckService.drawPairs({
+        easy: 3,
+        medium: 2,
+        hard: 1,
+      });
+
+      expect(pairs.filter((pair) => pair.difficulty === 'easy')).toHaveLength(
+        3,
+      );
+      expect(pairs.filter((pair) => pair.difficulty === 'medium')).toHaveLength(
+        2,
+      );
+      expect(pairs.filter((pair) => pair.difficulty === 'hard')).toHaveLength(
+        1,
+      );
+      expect(substitutions).toEqual([]);
+    });
+
+    it('should fill and report levels that run short', async () => {
+      await deckService.load();
+      const { pairs, substitutions } = deckService.drawPairs({
+        easy: 0,
+        medium: 0,
+        hard: 5,
+      });
+
+      expect(pairs).toHaveLength(5);
+      expect(substitutions).toEqual([
+        { requested: 'hard', supplied: 'medium', count: 2 },
+      ]);
+    });
+
+    it('should only draw pairs matching the filter', async () => {
+      await deckService.load();
+      const { pairs, outsideFilter } = deckService.drawPairs(
+        { easy: 0, medium: 4, hard: 1 },
+        { categories: [BugCategory.SECURITY] },
+      );
+
+      expect(pairs).toHaveLength(5);
+      expect(outsideFilter).toBe(0);
+      pairs.forEach((pair) => expect(pair.category).toBe(BugCategory.SECURITY));
+    });
+
+    it('should report pairs drawn from outside the filter', async () => {
+      await deckService.load();
+      const { pairs, outsideFilter } = deckService.drawPairs(
+        { easy: 2, medium: 5, hard: 1 },
+        { categories: [BugCategory.SECURITY] },
+      );
+
+      expect(pairs).toHaveLength(8);
+      expect(outsideFilter).toBe(2);
+    });
+  });
+});
+
+describe('DeckService authoring', () => {
+  let deckPath: string;
+  let deckService: DeckService;
+
+  beforeEach(async () => {
+    deckPath = join(mkdtempSync(join(tmpdir(), 'deck-')), 'bugs.json');
+    copyFileSync(join(process.cwd(), 'data', 'bugs.json'), deckPath);
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeckService,
+        RandomService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => deckPath },
+        },
+      ],
+    }).compile();
+
+    deckService = app.get<DeckService>(DeckService);
+    await deckService.load();
+  });
+
+  it('should save new pairs to the deck file', async () => {
+    const pair = {
+      ...deckService.getPair('pair_001'),
+      id: 'pair_100',
+    };
+
+    await deckService.createPair(pair);
+
+    const saved = JSON.parse(readFileSync(deckPath, 'utf8'));
+    expect(saved.pairs).toHaveLength(25);
+    expect(deckService.getPair('pair_100')).toBeTruthy();
+  });
+
+  it('should reject duplicate pair ids', async () => {
+    await expect(
+      deckService.createPair(deckService.getPair('pair_001')),
+    ).rejects.toThrow(DeckValidationError);
+  });
+
+  it('should round-trip the deck through CSV', async () => {
+    const pairs = deckService.getPairs();
+    const csv = pairsToCsv(pairs);
+
+    const result = await deckService.importPairs(csvToPairs(csv), 'replace');
+
+    expect(result).toEqual({ created: 24, updated: 0, total: 24 });
+    expect(JSON.parse(JSON.stringify(deckService.getPairs()))).toEqual(
+      JSON.parse(readFileSync(join(process.cwd(), 'data', 'bugs.json'), 'utf8'))
+        .pairs,
+    );
+  });
+
+  it('should merge imported pairs by id', async () => {
+    const pair = deckService.getPair('pair_002');
+    const result = await deckService.importPairs(
+      [{ ...pair, bug: { ...pair.bug, title: 'Renamed' } }],
+      'merge',
+    );
+
+    expect(result).toEqual({ created: 0, updated: 1, total: 24 });
+    expect(deckService.getPair('pair_002').bug.title).toBe('Renamed');
+  });
+});
@@ -0,0 +1,298 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { readFile, rename, writeFile } from 'fs/promises';
+import { resolve } from 'path';
+import { DifficultyDistribution } from '../game/entities/card.entity';
+import { DeckFileDto } from './dto/bug-solution-pair.dto';
+import { validateDeck } from './deck-validation';
+import {
+  BoardPair,
+  BugSolutionPair,
+  DeckFilter,
+  PairSelection,
+} from './entities/bug-solution-pair.entity';
+import { CardDifficulty } from '../game/entities/card.entity';
+import { RandomService } from '../random/random.service';
+import { RandomSource } from '../random/random-source';
+import {
+  countPairs,
+  selectByDifficulty,
+  unfilledDistribution,
+} from './pair-selection';
+
+/**
+ * Service responsible for the curated bug-solution deck
+ */
+@Injectable()
+export class DeckService implements OnModuleInit {
+  private pairs: BugSolutionPair[] = [];
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly randomService: RandomService,
+  ) {}
+
+  /**
+   * Loads the curated deck when the module starts
+   */
+  async onModuleInit(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * Reads and validates the deck file
+   * @throws DeckValidationError if the file content is not a valid deck
+   */
+  async load(): Promise<void> {
+    const deckPath = this.getDeckPath();
+    const raw = JSON.parse(await readFile(deckPath, 'utf8'));
+    this.pairs = this.validate(raw);
+    console.log(`Loaded ${this.pairs.length} pairs from ${deckPath}`);
+  }
+
+  /**
+   * Gets all curated pairs
+   */
+  getPairs(): BugSolutionPair[] {
+    return this.pairs;
+  }
+
+  /**
+   * Lists curated pairs matching optional criteria
+   * @param filter - Category and tag restrictions
+   * @param difficulty - Optional difficulty to match
+   * @returns The matching pairs
+   */
+  findPairs(
+    filter: DeckFilter = {},
+    difficulty?: CardDifficulty,
+  ): BugSolutionPair[] {
+    return this.pairs.filter(
+      (pair) =>
+        this.matchesFilter(pair, filter) &&
+        (!difficulty || pair.bug.difficulty === difficulty),
+    );
+  }
+
+  /**
+   * Gets a curated pair by ID
+   * @param id - ID of the pair
+   * @returns The pair or null if not found
+   */
+  getPair(id: string): BugSolutionPair | null {
+    return this.pairs.find((pair) => pair.id === id) || null;
+  }
+
+  /**
+   * Adds a pair to the deck and saves it
+   * @param pair - Pair to add
+   * @returns The added pair
+   * @throws DeckValidationError if the pair is invalid or its ID is taken
+   */
+  async createPair(pair: BugSolutionPair): Promise<BugSolutionPair> {
+    await this.commit((pairs) => [...pairs, pair]);
+    return this.getPair(pair.id);
+  }
+
+  /**
+   * Replaces a pair in the deck and saves it
+   * @param id - ID of the pair to replace
+   * @param pair - New content of the pair
+   * @returns The updated pair or null if not found
+   * @throws DeckValidationError if the new content is invalid
+   */
+  async updatePair(
+    id: string,
+    pair: BugSolutionPair,
+  ): Promise<BugSolutionPair | null> {
+    if (!this.getPair(id)) return null;
+
+    await this.commit((pairs) =>
+      pairs.map((existing) => (existing.id === id ? pair : existing)),
+    );
+    return this.getPair(pair.id);
+  }
+
+  /**
+   * Removes a pair from the deck and saves it
+   * @param id - ID of the pair to remove
+   * @returns Whether the pair existed
+   * @throws DeckValidationError if it is the last pair in the deck
+   */
+  async deletePair(id: string): Promise<boolean> {
+    if (!this.getPair(id)) return false;
+
+    await this.commit((pairs) => pairs.filter((pair) => pair.id !== id));
+    return true;
+  }
+
+  /**
+   * Imports pairs in bulk and saves the deck
+   * @param pairs - Plain pair objects to import
+   * @param mode - `merge` upserts by ID, `replace` discards the current deck
+   * @returns How many pairs were created and updated
+   * @throws DeckValidationError if any pair is invalid
+   */
+  async importPairs(
+    pairs: unknown[],
+    mode: 'merge' | 'replace',
+  ): Promise<{ created: number; updated: number; total: number }> {
+    const imported = this.validate({ pairs });
+    const importedIds = new Set(imported.map((pair) => pair.id));
+    let updated = 0;
+
+    await this.commit((current) => {
+      if (mode === 'replace') return imported;
+
+      const kept = current.filter((pair) => !importedIds.has(pair.id));
+      updated = current.length - kept.length;
+      return [...kept, ...imported];
+    });
+
+    return {
+      created: imported.length - updated,
+      updated,
+      total: this.pairs.length,
+    };
+  }
+
+  /**
+   * Draws random pairs from the deck, ready for the board. Pairs matching the
+   * filter are preferred; if they cannot fill the board, the rest comes from
+   * outside the filter and is reported.
+   * @param distribution - Number of pairs wanted per difficulty
+   * @param filter - Optional category and tag restrictions
+   * @param pairs - Pairs to draw from (defaults to the curated deck)
+   * @param random - Random sequence to shuffle with (a game's own sequence,
+   * so the same seed draws the same pairs)
+   * @returns Distinct pairs and how the requested mix was met
+   */
+  drawPairs(
+    distribution: DifficultyDistribution,
+    filter: DeckFilter = {},
+    pairs: BugSolutionPair[] = this.pairs,
+    random: RandomSource = this.randomService,
+  ): PairSelection {
+    const shuffled = random.shuffle(pairs);
+    const matching = shuffled.filter((pair) =>
+      this.matchesFilter(pair, filter),
+    );
+    const inFilter = selectByDifficulty(
+      matching.map((pair) => this.toBoardPair(pair)),
+      distribution,
+    );
+
+    const unfilled = unfilledDistribution(inFilter.substitutions);
+    if (countPairs(unfilled) === 0 || matching.length === shuffled.length) {
+      return {
+        pairs: inFilter.selected,
+        substitutions: inFilter.substitutions,
+        outsideFilter: 0,
+      };
+    }
+
+    const outside = selectByDifficulty(
+      shuffled
+        .filter((pair) => !matching.includes(pair))
+        .map((pair) => this.toBoardPair(pair)),
+      unfilled,
+    );
+
+    return {
+      pairs: [...inFilter.selected, ...outside.selected],
+      substitutions: [
+        ...inFilter.substitutions.filter(
+          (substitution) => substitution.supplied,
+        ),
+        ...outside.substitutions,
+      ],
+      outsideFilter: outside.selected.length,
+    };
+  }
+
+  /**
+   * Checks whether a pair passes a deck filter
+   */
+  private matchesFilter(pair: BugSolutionPair, filter: DeckFilter): boolean {
+    if (
+      filter.categories?.length &&
+      !filter.categories.includes(pair.bug.category)
+    ) {
+      return false;
+    }
+
+    if (filter.tags?.length) {
+      const tags = pair.bug.tags.map((tag) => tag.toLowerCase());
+      return filter.tags.some((tag) => tags.includes(tag.toLowerCase()));
+    }
+
+    return true;
+  }
+
+  /**
+   * Validates raw deck content
+   * @param raw - Parsed deck file content
+   * @returns The validated pairs
+   */
+  private validate(raw: unknown): BugSolutionPair[] {
+    return validateDeck(DeckFileDto, raw).pairs;
+  }
+
+  /**
+   * Applies a change to the deck, one change at a time. The new version is
+   * validated and saved before it becomes current.
+   * @param update - Builds the new pairs from the current ones
+   */
+  private commit(
+    update: (pairs: BugSolutionPair[]) => unknown[],
+  ): Promise<void> {
+    const write = this.pendingWrite
+      .catch(() => undefined)
+      .then(async () => {
+        const validated = this.validate({ pairs: update(this.pairs) });
+        await this.writeDeck(validated);
+        this.pairs = validated;
+      });
+
+    this.pendingWrite = write;
+    return write;
+  }
+
+  /**
+   * Writes the deck to its file
+   */
+  private async writeDeck(pairs: BugSolutionPair[]): Promise<void> {
+    const deckPath = this.getDeckPath();
+    await writeFile(
+      `${deckPath}.tmp`,
+      `${JSON.stringify({ pairs }, null, 2)}\n`,
+    );
+    await rename(`${deckPath}.tmp`, deckPath);
+  }
+
+  /**
+   * Gets the absolute path of the deck file
+   */
+  private getDeckPath(): string {
+    return resolve(
+      this.configService.get<string>('DECK_PATH', 'data/bugs.json'),
+    );
+  }
+
+  /**
+   * Converts a curated pair into board content
+   */
+  private toBoardPair(pair: BugSolutionPair): BoardPair {
+    return {
+      bug: { title: pair.bug.title, description: pair.bug.description },
+      solution: {
+        description: pair.solution.description,
+        code: pair.solution.code,
+        explanation: pair.solution.explanation,
+      },
+      difficulty: pair.bug.difficulty,
+      category: pair.bug.category,
+    };
+  }
+}
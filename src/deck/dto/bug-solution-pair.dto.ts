@@ -0,0 +1,116 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { CardDifficulty } from '../../game/entities/card.entity';
+import { BugCategory } from '../entities/bug-solution-pair.entity';
+
+const DIFFICULTIES: CardDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Maximum lengths of pair fields
+ */
+export const PAIR_FIELD_LIMITS = {
+  id: 64,
+  title: 120,
+  description: 500,
+  code: 4000,
+  explanation: 1000,
+  tags: 10,
+  tag: 30,
+};
+
+/**
+ * Validation schema for the bug half of a pair
+ */
+export class BugDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.id)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.title)
+  title: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.description)
+  description: string;
+
+  @IsEnum(BugCategory)
+  category: BugCategory;
+
+  @IsIn(DIFFICULTIES)
+  difficulty: CardDifficulty;
+
+  @IsArray()
+  @ArrayMaxSize(PAIR_FIELD_LIMITS.tags)
+  @IsString({ each: true })
+  @MaxLength(PAIR_FIELD_LIMITS.tag, { each: true })
+  tags: string[];
+}
+
+/**
+ * Validation schema for the solution half of a pair
+ */
+export class SolutionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.id)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.description)
+  description: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(PAIR_FIELD_LIMITS.code)
+  code?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.explanation)
+  explanation: string;
+}
+
+/**
+ * Validation schema for a curated bug-solution pair
+ */
+export class BugSolutionPairDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(PAIR_FIELD_LIMITS.id)
+  id: string;
+
+  @ValidateNested()
+  @Type(() => BugDto)
+  bug: BugDto;
+
+  @ValidateNested()
+  @Type(() => SolutionDto)
+  solution: SolutionDto;
+}
+
+/**
+ * Validation schema for a whole deck file
+ */
+export class DeckFileDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => BugSolutionPairDto)
+  pairs: BugSolutionPairDto[];
+}
@@ -0,0 +1,37 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { BugSolutionPairDto } from './bug-solution-pair.dto';
+
+/**
+ * Size limits of custom decks
+ */
+export const CUSTOM_DECK_LIMITS = {
+  name: 80,
+  minPairs: 6,
+  maxPairs: 100,
+};
+
+/**
+ * Validation schema for a host-uploaded deck
+ */
+export class CustomDeckDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(CUSTOM_DECK_LIMITS.name)
+  name: string;
+
+  @IsArray()
+  @ArrayMinSize(CUSTOM_DECK_LIMITS.minPairs)
+  @ArrayMaxSize(CUSTOM_DECK_LIMITS.maxPairs)
+  @ValidateNested({ each: true })
+  @Type(() => BugSolutionPairDto)
+  pairs: BugSolutionPairDto[];
+}
@@ -0,0 +1,38 @@
+import { IsEnum, IsIn, IsOptional, IsString } from 'class-validator';
+import { CardDifficulty } from '../../game/entities/card.entity';
+import { BugCategory } from '../entities/bug-solution-pair.entity';
+
+/**
+ * Query parameters for listing pairs
+ */
+export class ListPairsQueryDto {
+  @IsOptional()
+  @IsEnum(BugCategory)
+  category?: BugCategory;
+
+  @IsOptional()
+  @IsString()
+  tag?: string;
+
+  @IsOptional()
+  @IsIn(['easy', 'medium', 'hard'])
+  difficulty?: CardDifficulty;
+}
+
+/**
+ * Query parameters for importing pairs
+ */
+export class ImportPairsQueryDto {
+  @IsOptional()
+  @IsIn(['merge', 'replace'])
+  mode?: 'merge' | 'replace';
+}
+
+/**
+ * Query parameters for exporting pairs
+ */
+export class ExportPairsQueryDto {
+  @IsOptional()
+  @IsIn(['json', 'csv'])
+  format?: 'json' | 'csv';
+}
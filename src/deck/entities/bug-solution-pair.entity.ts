@@ -0,0 +1,173 @@
+import { CardDifficulty } from '../../game/entities/card.entity';
+
+/**
+ * Category a bug belongs to
+ */
+export enum BugCategory {
+  FRONTEND = 'FRONTEND',
+  BACKEND = 'BACKEND',
+  DATABASE = 'DATABASE',
+  SECURITY = 'SECURITY',
+  PERFORMANCE = 'PERFORMANCE',
+  GENERAL = 'GENERAL',
+}
+
+/**
+ * Bug half of a curated pair
+ */
+export interface Bug {
+  /**
+   * Unique identifier for the bug
+   */
+  id: string;
+
+  /**
+   * Short bug description
+   */
+  title: string;
+
+  /**
+   * Detailed bug description
+   */
+  description: string;
+
+  /**
+   * Category the bug belongs to
+   */
+  category: BugCategory;
+
+  /**
+   * Difficulty level of the bug
+   */
+  difficulty: CardDifficulty;
+
+  /**
+   * Free-form tags for categorization
+   */
+  tags: string[];
+}
+
+/**
+ * Solution half of a curated pair
+ */
+export interface Solution {
+  /**
+   * Unique identifier for the solution
+   */
+  id: string;
+
+  /**
+   * Solution description
+   */
+  description: string;
+
+  /**
+   * Optional code snippet showing the fix
+   */
+  code?: string;
+
+  /**
+   * Why this solution works
+   */
+  explanation: string;
+}
+
+/**
+ * A curated bug-solution pair as stored in data/bugs.json
+ */
+export interface BugSolutionPair {
+  /**
+   * Unique identifier for the pair
+   */
+  id: string;
+
+  /**
+   * The bug in the pair
+   */
+  bug: Bug;
+
+  /**
+   * The solution in the pair
+   */
+  solution: Solution;
+}
+
+/**
+ * A pair ready to be laid out on the board as a bug card and a solution card
+ */
+export interface BoardPair {
+  /**
+   * Content of the bug card
+   */
+  bug: Pick<Bug, 'title' | 'description'>;
+
+  /**
+   * Content of the solution card
+   */
+  solution: Pick<Solution, 'description' | 'code' | 'explanation'>;
+
+  /**
+   * Difficulty level of the pair
+   */
+  difficulty: CardDifficulty;
+
+  /**
+   * Category the bug belongs to
+   */
+  category: BugCategory;
+}
+
+/**
+ * Restricts which pairs may be drawn for a board
+ */
+export interface DeckFilter {
+  /**
+   * Allowed bug categories (any category if empty)
+   */
+  categories?: BugCategory[];
+
+  /**
+   * Pairs must carry at least one of these tags (any tags if empty)
+   */
+  tags?: string[];
+}
+
+/**
+ * Records pairs that could not be supplied at the requested difficulty
+ */
+export interface DifficultySubstitution {
+  /**
+   * Difficulty that was requested
+   */
+  requested: CardDifficulty;
+
+  /**
+   * Difficulty that was used instead (absent if the gap stayed unfilled)
+   */
+  supplied?: CardDifficulty;
+
+  /**
+   * Number of pairs affected
+   */
+  count: number;
+}
+
+/**
+ * Pairs selected for a board, together with how the requested mix was met
+ */
+export interface PairSelection {
+  /**
+   * Selected pairs
+   */
+  pairs: BoardPair[];
+
+  /**
+   * Gaps in the requested distribution and how they were filled
+   */
+  substitutions: DifficultySubstitution[];
+
+  /**
+   * Number of pairs drawn from outside the deck filter to fill the board
+   */
+  outsideFilter: number;
+}
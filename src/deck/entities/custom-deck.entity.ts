@@ -0,0 +1,66 @@
+import { BugSolutionPair } from './bug-solution-pair.entity';
+
+/**
+ * A deck uploaded by a host for use in their own rooms
+ */
+export interface CustomDeck {
+  /**
+   * Unique identifier for the deck
+   */
+  id: string;
+
+  /**
+   * Display name of the deck
+   */
+  name: string;
+
+  /**
+   * Pairs in the deck
+   */
+  pairs: BugSolutionPair[];
+
+  /**
+   * Timestamp when the deck was saved
+   */
+  createdAt: number;
+}
+
+/**
+ * Deck details that are safe to show to every player in a room
+ */
+export interface CustomDeckSummary {
+  /**
+   * ID of the saved deck, if the deck was not uploaded inline
+   */
+  deckId?: string;
+
+  /**
+   * Display name of the deck
+   */
+  name: string;
+
+  /**
+   * Number of pairs in the deck
+   */
+  pairCount: number;
+}
+
+/**
+ * Where a room's custom deck comes from: inline pairs or a saved deck
+ */
+export interface CustomDeckSource {
+  /**
+   * Display name for inline pairs
+   */
+  name?: string;
+
+  /**
+   * Inline pairs
+   */
+  pairs?: unknown[];
+
+  /**
+   * ID of a saved deck
+   */
+  deckId?: string;
+}
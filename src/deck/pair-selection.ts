@@ -0,0 +1,116 @@
+import {
+  CardDifficulty,
+  DifficultyDistribution,
+} from '../game/entities/card.entity';
+import { DifficultySubstitution } from './entities/bug-solution-pair.entity';
+
+/**
+ * Difficulties to fall back to, nearest first, when a level runs short
+ */
+const SUBSTITUTION_ORDER: Record<CardDifficulty, CardDifficulty[]> = {
+  easy: ['medium', 'hard'],
+  medium: ['easy', 'hard'],
+  hard: ['medium', 'easy'],
+};
+
+const DIFFICULTIES: CardDifficulty[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Adds up the pairs requested by a distribution
+ * @param distribution - Pairs wanted per difficulty
+ * @returns Total number of pairs
+ */
+export function countPairs(distribution: DifficultyDistribution): number {
+  return DIFFICULTIES.reduce((sum, level) => sum + distribution[level], 0);
+}
+
+/**
+ * Picks items matching a difficulty distribution. Levels that run short are
+ * filled from the nearest other level, and every gap is reported.
+ * @param candidates - Items to pick from, in order of preference
+ * @param distribution - Number of items wanted per difficulty
+ * @returns The picked items and the substitutions that were needed
+ */
+export function selectByDifficulty<T extends { difficulty: CardDifficulty }>(
+  candidates: T[],
+  distribution: DifficultyDistribution,
+): { selected: T[]; substitutions: DifficultySubstitution[] } {
+  const buckets = DIFFICULTIES.reduce(
+    (acc, level) => {
+      acc[level] = candidates.filter((item) => item.difficulty === level);
+      return acc;
+    },
+    {} as Record<CardDifficulty, T[]>,
+  );
+
+  const selected: T[] = [];
+  const shortfalls = {} as Record<CardDifficulty, number>;
+
+  DIFFICULTIES.forEach((level) => {
+    const taken = buckets[level].splice(0, distribution[level]);
+    selected.push(...taken);
+    shortfalls[level] = distribution[level] - taken.length;
+  });
+
+  const substitutions: DifficultySubstitution[] = [];
+
+  DIFFICULTIES.forEach((level) => {
+    let missing = shortfalls[level];
+
+    SUBSTITUTION_ORDER[level].forEach((fallback) => {
+      if (missing === 0) return;
+      const taken = buckets[fallback].splice(0, missing);
+      if (taken.length === 0) return;
+
+      selected.push(...taken);
+      missing -= taken.length;
+      substitutions.push({
+        requested: level,
+        supplied: fallback,
+        count: taken.length,
+      });
+    });
+
+    if (missing > 0) {
+      substitutions.push({ requested: level, count: missing });
+    }
+  });
+
+  return { selected, substitutions };
+}
+
+/**
+ * Works out how many items are still needed per difficulty
+ * @param distribution - Number of items wanted per difficulty
+ * @param items - Items already available
+ * @returns Remaining number of items wanted per difficulty
+ */
+export function remainingDistribution(
+  distribution: DifficultyDistribution,
+  items: { difficulty: CardDifficulty }[],
+): DifficultyDistribution {
+  return DIFFICULTIES.reduce((acc, level) => {
+    const available = items.filter((item) => item.difficulty === level).length;
+    acc[level] = Math.max(0, distribution[level] - available);
+    return acc;
+  }, {} as DifficultyDistribution);
+}
+
+/**
+ * Collects the gaps a selection could not fill at any difficulty
+ * @param substitutions - Substitutions reported by selectByDifficulty
+ * @returns Number of unfilled items per requested difficulty
+ */
+export function unfilledDistribution(
+  substitutions: DifficultySubstitution[],
+): DifficultyDistribution {
+  return substitutions
+    .filter((substitution) => !substitution.supplied)
+    .reduce(
+      (acc, substitution) => {
+        acc[substitution.requested] += substitution.count;
+        return acc;
+      },
+      { easy: 0, medium: 0, hard: 0 } as DifficultyDistribution,
+    );
+}
@@ -0,0 +1,203 @@
+import { countPairs } from '../deck/pair-selection';
+import { BoardSettings } from '../common/interfaces/room.interface';
+import { CardDifficulty, DifficultyDistribution } from './entities/card.entity';
+import { BoardSize } from './entities/game.entity';
+
+/**
+ * Grids a board can be laid out on, smallest first
+ */
+export const BOARD_SIZES: BoardSize[] = [
+  { columns: 4, rows: 3 },
+  { columns: 4, rows: 4 },
+  { columns: 5, rows: 4 },
+  { columns: 6, rows: 4 },
+  { columns: 6, rows: 5 },
+  { columns: 6, rows: 6 },
+];
+
+/**
+ * Fewest pairs a board can have
+ */
+export const MIN_PAIRS = 2;
+
+/**
+ * Pairs on a board when the host does not pick a number
+ */
+export const DEFAULT_PAIRS = 6;
+
+/**
+ * Shortest and longest turn a host can pick, in seconds
+ */
+export const MIN_TURN_TIME_LIMIT = 10;
+export const MAX_TURN_TIME_LIMIT = 120;
+
+/**
+ * Turn length when the host does not pick one, in seconds
+ */
+export const DEFAULT_TURN_TIME_LIMIT = 30;
+
+const DIFFICULTIES: CardDifficulty[] = ['easy', 'medium', 'hard'];
+const LARGEST_BOARD = BOARD_SIZES[BOARD_SIZES.length - 1];
+
+/**
+ * Checks requested board settings and fills in the ones left out. The pair
+ * count defaults to the difficulty mix, then to what fills the board; the
+ * board defaults to the smallest grid that fits; the mix defaults to an
+ * even split.
+ * @param requested - Settings picked by the host
+ * @param extraCards - Cards on the board besides the pairs (action cards)
+ * @returns Complete, consistent board settings
+ * @throws Error if a setting is out of range or the settings disagree
+ */
+export function resolveBoardSettings(
+  requested: Partial<BoardSettings> = {},
+  extraCards = 0,
+): BoardSettings {
+  const { board } = requested;
+  const difficultyDistribution =
+    requested.difficultyDistribution &&
+    pickDistribution(requested.difficultyDistribution);
+  if (board && !BOARD_SIZES.some((size) => isSameSize(size, board))) {
+    throw new Error(
+      `Unsupported board size ${formatSize(board)}; pick one of ${BOARD_SIZES.map(formatSize).join(', ')}`,
+    );
+  }
+  if (difficultyDistribution) {
+    validateDistribution(difficultyDistribution);
+  }
+
+  const numberOfPairs =
+    requested.numberOfPairs ??
+    (difficultyDistribution
+      ? countPairs(difficultyDistribution)
+      : board
+        ? Math.floor((cellCount(board) - extraCards) / 2)
+        : DEFAULT_PAIRS);
+  const maxPairs = Math.floor(cellCount(LARGEST_BOARD) / 2);
+  if (
+    !Number.isInteger(numberOfPairs) ||
+    numberOfPairs < MIN_PAIRS ||
+    numberOfPairs > maxPairs
+  ) {
+    throw new Error(
+      `Number of pairs must be a whole number between ${MIN_PAIRS} and ${maxPairs}`,
+    );
+  }
+
+  const cards = numberOfPairs * 2 + extraCards;
+  const size = board ?? BOARD_SIZES.find((size) => cellCount(size) >= cards);
+  if (!size || cellCount(size) < cards) {
+    throw new Error(
+      `${cards} cards do not fit on a ${formatSize(size ?? LARGEST_BOARD)} board`,
+    );
+  }
+
+  if (
+    difficultyDistribution &&
+    countPairs(difficultyDistribution) !== numberOfPairs
+  ) {
+    throw new Error(
+      `Difficulty mix must add up to the ${numberOfPairs} pairs on the board`,
+    );
+  }
+
+  return {
+    board: { columns: size.columns, rows: size.rows },
+    numberOfPairs,
+    difficultyDistribution:
+      difficultyDistribution ?? splitEvenly(numberOfPairs),
+  };
+}
+
+/**
+ * Checks a requested turn length
+ * @param turnTimeLimit - Seconds picked by the host
+ * @returns The turn length, DEFAULT_TURN_TIME_LIMIT if none was picked
+ * @throws Error if the turn length is out of range
+ */
+export function resolveTurnTimeLimit(turnTimeLimit?: unknown): number {
+  if (turnTimeLimit === undefined || turnTimeLimit === null) {
+    return DEFAULT_TURN_TIME_LIMIT;
+  }
+
+  const seconds = Number(turnTimeLimit);
+  if (
+    !Number.isInteger(seconds) ||
+    seconds < MIN_TURN_TIME_LIMIT ||
+    seconds > MAX_TURN_TIME_LIMIT
+  ) {
+    throw new Error(
+      `Turn time limit must be between ${MIN_TURN_TIME_LIMIT} and ${MAX_TURN_TIME_LIMIT} seconds`,
+    );
+  }
+  return seconds;
+}
+
+/**
+ * Picks a grid for boards whose size was not chosen: the smallest supported
+ * size that fits, or a near-square grid past the largest one
+ * @param cardCount - Number of cards on the board
+ * @returns A grid with room for every card
+ */
+export function fitBoardSize(cardCount: number): BoardSize {
+  const size = BOARD_SIZES.find((size) => cellCount(size) >= cardCount);
+  if (size) return { ...size };
+
+  const columns = Math.ceil(Math.sqrt(cardCount));
+  return { columns, rows: Math.ceil(cardCount / columns) };
+}
+
+/**
+ * Number of cards a grid holds
+ */
+export function cellCount(size: BoardSize): number {
+  return size.columns * size.rows;
+}
+
+/**
+ * Spreads pairs over the difficulties, easier levels taking the remainder
+ */
+function splitEvenly(pairs: number): DifficultyDistribution {
+  return DIFFICULTIES.reduce((acc, level, index) => {
+    acc[level] =
+      Math.floor(pairs / DIFFICULTIES.length) +
+      (index < pairs % DIFFICULTIES.length ? 1 : 0);
+    return acc;
+  }, {} as DifficultyDistribution);
+}
+
+/**
+ * Fails unless every level of a mix is a whole number of pairs
+ */
+function validateDistribution(distribution: DifficultyDistribution): void {
+  DIFFICULTIES.forEach((level) => {
+    const pairs = distribution[level];
+    if (!Number.isInteger(pairs) || pairs < 0) {
+      throw new Error(`Difficulty mix needs a whole number of ${level} pairs`);
+    }
+  });
+}
+
+/**
+ * Copies the known levels of a mix, counting levels left out as zero
+ */
+function pickDistribution(
+  distribution: Partial<DifficultyDistribution>,
+): DifficultyDistribution {
+  const { easy = 0, medium = 0, hard = 0 } = distribution;
+  return { easy, medium, hard };
+}
+
+/**
+ * Checks whether two grids have the same shape
+ */
+function isSameSize(a: BoardSize, b: BoardSize): boolean {
+  return a.columns === b.columns && a.rows === b.rows;
+}
+
+/**
+ * Writes a grid size the way hosts pick it, such as 4x3
+ */
+function formatSize(size: BoardSize): string {
+  return `${size.columns}x${size.rows}`;
+}
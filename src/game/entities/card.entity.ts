@@ -1,13 +1,57 @@
+import { BugCategory } from '../../deck/entities/bug-solution-pair.entity';
+
+/**
+ * Type of card in the game: half of a bug-solution pair, or a special
+ * action card that takes effect when flipped
+ */
+export type CardType = 'bug' | 'solution' | 'action';
+
 /**
- * Type of card in the game
+ * What an action card does: `hotfix` briefly shows a random pair to the
+ * player who flipped it, `regression` reshuffles the hidden cards,
+ * `codeReview` gives the player an extra flip after their next miss
  */
-export type CardType = 'bug' | 'solution';
+export type ActionCardKind = 'hotfix' | 'regression' | 'codeReview';
 
 /**
  * Difficulty level of the card
  */
 export type CardDifficulty = 'easy' | 'medium' | 'hard';
 
+/**
+ * Number of pairs wanted at each difficulty level
+ */
+export interface DifficultyDistribution {
+  easy: number;
+  medium: number;
+  hard: number;
+}
+
+/**
+ * What is printed on a card
+ */
+export interface CardContent {
+  /**
+   * Headline of the card: the bug title or the fix in a few words
+   */
+  title: string;
+
+  /**
+   * Details of the bug (bug cards only)
+   */
+  description?: string;
+
+  /**
+   * Code snippet showing the fix (solution cards only)
+   */
+  code?: string;
+
+  /**
+   * Why the fix works (solution cards only)
+   */
+  explanation?: string;
+}
+
 /**
  * Represents a card in the game
  */
@@ -18,39 +62,69 @@ export interface Card {
   id: string;
 
   /**
-   * Type of the card (bug or solution)
+   * ID of the pair the card belongs to (null for action cards)
+   */
+  pairId: string | null;
+
+  /**
+   * Type of the card (bug, solution or action)
    */
   type: CardType;
 
+  /**
+   * What the card does when flipped (action cards only)
+   */
+  action?: ActionCardKind;
+
   /**
    * Content displayed on the card
    */
-  content: string;
+  content: CardContent;
 
   /**
    * Difficulty level of the card
    */
   difficulty: CardDifficulty;
 
+  /**
+   * Category of the bug the card belongs to
+   */
+  category: BugCategory;
+
   /**
    * Whether the card is currently flipped
    */
   isFlipped: boolean;
 
   /**
-   * Whether the card has been matched
+   * Whether the card has been matched, or played for action cards
    */
   isMatched: boolean;
 
   /**
-   * ID of the matching card (for bug-solution pairs)
+   * How many times the card has been flipped face up
    */
-  matchingCardId: string;
+  timesFlipped: number;
+
+  /**
+   * ID of the matching card (for bug-solution pairs, null for action cards)
+   */
+  matchingCardId: string | null;
 
   /**
    * Position in the grid (0-based index)
    */
   position: number;
+
+  /**
+   * Row of the card in the grid (0-based, from the top)
+   */
+  row: number;
+
+  /**
+   * Column of the card in the grid (0-based, from the left)
+   */
+  column: number;
 }
 
 /**
@@ -1,10 +1,233 @@
-import { Card } from './card.entity';
+import {
+  BoardPair,
+  BugSolutionPair,
+  DeckFilter,
+  DifficultySubstitution,
+} from '../../deck/entities/bug-solution-pair.entity';
+import {
+  Card,
+  CardContent,
+  CardDifficulty,
+  DifficultyDistribution,
+} from './card.entity';
+import { PersonalBest } from './personal-best.entity';
 
 /**
  * Status of the game
  */
 export type GameStatus = 'waiting' | 'playing' | 'finished';
 
+/**
+ * How a game is played: `classic` takes turns, `solo` is a single-player
+ * time attack, `race` has everyone clearing their own copy of the board at
+ * the same time, `team` pits two teams against each other
+ */
+export type GameMode = 'classic' | 'solo' | 'race' | 'team';
+
+/**
+ * How matches and misses are scored: `classic` by pair difficulty, `streak`
+ * adds a bonus for consecutive matches, `speed` adds a bonus for matching
+ * early in the turn, `penalty` takes points for missing with a card that was
+ * already revealed
+ */
+export type ScoringRule = 'classic' | 'streak' | 'speed' | 'penalty';
+
+/**
+ * One reason points were awarded or taken
+ */
+export interface ScoreItem {
+  /**
+   * What the points are for
+   */
+  reason: string;
+
+  /**
+   * Points awarded, negative for a penalty
+   */
+  points: number;
+}
+
+/**
+ * Points a matched or missed pair earned, and why
+ */
+export interface ScoreBreakdown {
+  /**
+   * Each part of the score change
+   */
+  items: ScoreItem[];
+
+  /**
+   * Sum of the items
+   */
+  total: number;
+}
+
+/**
+ * Teams of a team game
+ */
+export type TeamId = 'red' | 'blue';
+
+/**
+ * Represents the current state of a team in the game
+ */
+export interface TeamGameState {
+  /**
+   * ID of the team
+   */
+  id: TeamId;
+
+  /**
+   * IDs of the team's players in join order
+   */
+  playerIds: string[];
+
+  /**
+   * Combined score of the team's players
+   */
+  score: number;
+
+  /**
+   * Combined matches found by the team's players
+   */
+  matchesFound: number;
+}
+
+/**
+ * Size of the card grid, such as 4x3
+ */
+export interface BoardSize {
+  /**
+   * Number of cards in each row
+   */
+  columns: number;
+
+  /**
+   * Number of rows
+   */
+  rows: number;
+}
+
+/**
+ * A player's private copy of the board in a race
+ */
+export interface RaceBoard {
+  /**
+   * The player's cards, laid out like everyone else's
+   */
+  cards: Card[];
+
+  /**
+   * ID of the first card the player flipped in the current attempt
+   */
+  firstFlippedCard?: string;
+
+  /**
+   * ID of the second card the player flipped in the current attempt
+   */
+  secondFlippedCard?: string;
+
+  /**
+   * Timestamp when the player cleared the board
+   */
+  finishedAt?: number;
+}
+
+/**
+ * Why a game ended: the board was cleared, a player gave up, or a player
+ * disconnected and did not come back in time
+ */
+export type GameEndReason = 'completed' | 'forfeit' | 'disconnect';
+
+/**
+ * Source of the bug-solution pairs on the board
+ */
+export type CardSource = 'ai' | 'deck' | 'custom';
+
+/**
+ * Describes where the board content came from
+ */
+export interface BoardReport {
+  /**
+   * Source the pairs were requested from
+   */
+  source: CardSource;
+
+  /**
+   * Gaps in the requested difficulty mix and how they were filled
+   */
+  substitutions: DifficultySubstitution[];
+
+  /**
+   * Number of pairs drawn from outside the deck filter to fill the board
+   */
+  outsideFilter: number;
+
+  /**
+   * Share of AI pairs that had to be topped up from the deck (0 to 1)
+   */
+  fallbackRate: number;
+}
+
+/**
+ * How play went for one pair on the board
+ */
+export interface PairProgress {
+  /**
+   * ID of the player who matched the pair
+   */
+  matchedBy?: string;
+
+  /**
+   * Number of turns that flipped a card of the pair without matching it
+   */
+  failedAttempts: number;
+}
+
+/**
+ * What players can learn from one pair once the game is over
+ */
+export interface StudyEntry {
+  /**
+   * ID of the pair
+   */
+  pairId: string;
+
+  /**
+   * Content of the bug card
+   */
+  bug: CardContent;
+
+  /**
+   * Content of the solution card
+   */
+  solution: CardContent;
+
+  /**
+   * Why the solution fixes the bug
+   */
+  explanation: string;
+
+  /**
+   * Difficulty level of the pair
+   */
+  difficulty: CardDifficulty;
+
+  /**
+   * Player who matched the pair, if anyone did
+   */
+  matchedBy?: { id: string; nickname: string };
+
+  /**
+   * Number of turns that flipped a card of the pair without matching it
+   */
+  failedAttempts: number;
+}
+
+/**
+ * How well a bot player remembers revealed cards
+ */
+export type BotLevel = 'easy' | 'medium' | 'hard';
+
 /**
  * Represents the current state of a player in the game
  */
@@ -33,6 +256,62 @@ export interface PlayerGameState {
    * Whether it's currently this player's turn
    */
   isCurrentTurn: boolean;
+
+  /**
+   * Number of cards the player has flipped
+   */
+  flips: number;
+
+  /**
+   * Consecutive matches since the player's last miss
+   */
+  streak: number;
+
+  /**
+   * Misses the player may follow up with another flip instead of losing the
+   * turn, earned from Code Review cards
+   */
+  extraFlips: number;
+
+  /**
+   * Team the player plays for (team games only)
+   */
+  team?: TeamId;
+
+  /**
+   * Memory skill of the player when it is a server-side bot
+   */
+  botLevel?: BotLevel;
+}
+
+/**
+ * Result of a cleared time-attack board
+ */
+export interface TimeAttackResult {
+  /**
+   * Time taken to clear the board in milliseconds
+   */
+  elapsedMs: number;
+
+  /**
+   * Number of cards flipped
+   */
+  flips: number;
+
+  /**
+   * Score earned for speed and accuracy
+   */
+  score: number;
+
+  /**
+   * Best run of the player on this board size, including this one
+   */
+  personalBest: PersonalBest;
+
+  /**
+   * Whether this run set the personal best
+   */
+  isNewPersonalBest: boolean;
 }
 
 /**
@@ -49,11 +328,32 @@ export interface GameState {
    */
   status: GameStatus;
 
+  /**
+   * How the game is played
+   */
+  mode: GameMode;
+
+  /**
+   * How matches and misses are scored
+   */
+  scoring: ScoringRule;
+
   /**
    * Room code associated with this game
    */
   roomCode: string;
 
+  /**
+   * Size of the card grid the cards are laid out on
+   */
+  board: BoardSize;
+
+  /**
+   * Seed of the game's random sequence. The same seed and deck deal the same
+   * board, and the same moves then play out the same way.
+   */
+  seed: number;
+
   /**
    * Array of cards in the game
    */
@@ -64,6 +364,17 @@ export interface GameState {
    */
   players: Record<string, PlayerGameState>;
 
+  /**
+   * Player IDs in the order they take turns: join order, or alternating
+   * teams in team games. A player may appear more than once.
+   */
+  turnOrder: string[];
+
+  /**
+   * Position of the current turn in turnOrder
+   */
+  turnIndex: number;
+
   /**
    * ID of the player whose turn it currently is
    */
@@ -94,6 +405,16 @@ export interface GameState {
    */
   endedAt?: number;
 
+  /**
+   * Why the game ended (if finished)
+   */
+  endReason?: GameEndReason;
+
+  /**
+   * ID of the player who forfeited or disconnected, ending the game
+   */
+  forfeitedBy?: string;
+
   /**
    * Time limit for each turn in seconds
    */
@@ -103,28 +424,170 @@ export interface GameState {
    * Timestamp when the current turn started
    */
   currentTurnStartedAt: number;
+
+  /**
+   * How the board content was assembled
+   */
+  boardReport: BoardReport;
+
+  /**
+   * Progress of each pair, keyed by pair ID
+   */
+  pairProgress: Record<string, PairProgress>;
+
+  /**
+   * Result of a solo game once the board is cleared
+   */
+  timeAttack?: TimeAttackResult;
+
+  /**
+   * Teams of a team game, keyed by team ID
+   */
+  teams?: Partial<Record<TeamId, TeamGameState>>;
+
+  /**
+   * Private boards of a race, keyed by player ID. In a race, `cards` is the
+   * shared layout and never flipped.
+   */
+  boards?: Record<string, RaceBoard>;
+
+  /**
+   * Whether the game counts for a leaderboard. While it runs, players are
+   * not sent anything that gives away face-down cards.
+   */
+  ranked?: boolean;
 }
 
 /**
  * Configuration for a new game
  */
 export interface GameConfig {
+  /**
+   * How the game is played (defaults to classic)
+   */
+  mode?: GameMode;
+
+  /**
+   * How matches and misses are scored (defaults to classic)
+   */
+  scoring?: ScoringRule;
+
   /**
    * Number of card pairs in the game
    */
   numberOfPairs: number;
 
+  /**
+   * Size of the card grid (defaults to the smallest square-ish grid that
+   * fits every card)
+   */
+  board?: BoardSize;
+
+  /**
+   * Seed to deal the game with, to replay an earlier game (a new seed is
+   * picked by default)
+   */
+  seed?: number;
+
   /**
    * Time limit for each turn in seconds
    */
   turnTimeLimit: number;
 
   /**
-   * Distribution of card difficulties
+   * Distribution of card difficulties (must add up to numberOfPairs)
+   */
+  difficultyDistribution: DifficultyDistribution;
+
+  /**
+   * Where to get the pairs from (defaults to the CARD_SOURCE setting)
+   */
+  cardSource?: CardSource;
+
+  /**
+   * Category and tag restrictions for the pairs
+   */
+  deckFilter?: DeckFilter;
+
+  /**
+   * Pairs of a host-uploaded deck to draw from instead of the usual source
    */
-  difficultyDistribution: {
-    easy: number;
-    medium: number;
-    hard: number;
-  };
+  customPairs?: BugSolutionPair[];
+
+  /**
+   * Exact pairs to deal, skipping the card source (daily challenges). Only
+   * their order on the board is left to the seed.
+   */
+  boardPairs?: BoardPair[];
+
+  /**
+   * Whether to mix one of each action card into the board (not in races)
+   */
+  actionCards?: boolean;
+
+  /**
+   * Whether the game counts for a leaderboard (daily challenges)
+   */
+  ranked?: boolean;
 }
+
+/**
+ * Why the turn passed to another player
+ */
+export type TurnChangeReason = 'noMatch' | 'timeout';
+
+/**
+ * Something that happened in a game, published by GameService in order for
+ * the gateways to relay
+ */
+export type GameEvent =
+  | {
+      type: 'gameStarted';
+      gameState: GameState;
+    }
+  | {
+      type: 'cardFlipped';
+      gameState: GameState;
+      playerId: string;
+      card: Card;
+    }
+  | {
+      type: 'match' | 'noMatch';
+      gameState: GameState;
+      playerId: string;
+      cards: Card[];
+      score?: ScoreBreakdown;
+      /** Whether the player spent an extra flip and keeps the turn */
+      extraFlip?: boolean;
+    }
+  | {
+      type: 'actionPlayed';
+      gameState: GameState;
+      playerId: string;
+      card: Card;
+      /** Pair shown to the player by a Hotfix card */
+      revealedCards?: Card[];
+      /** How long the revealed pair stays visible */
+      revealMs?: number;
+    }
+  | {
+      type: 'cardsFlippedBack';
+      gameState: GameState;
+      playerId: string;
+      cards: Card[];
+    }
+  | {
+      type: 'gameOver';
+      gameState: GameState;
+      reason: GameEndReason;
+    }
+  | {
+      type: 'turnChanged';
+      gameState: GameState;
+      reason: TurnChangeReason;
+    }
+  | {
+      type: 'timerTick';
+      gameState: GameState;
+      remainingSeconds: number;
+    };
@@ -0,0 +1,34 @@
+/**
+ * A player's best time-attack run on one board size
+ */
+export interface PersonalBest {
+  /**
+   * Nickname the run was played under
+   */
+  nickname: string;
+
+  /**
+   * Number of pairs on the board
+   */
+  numberOfPairs: number;
+
+  /**
+   * Time-attack score of the run
+   */
+  score: number;
+
+  /**
+   * Time taken to clear the board in milliseconds
+   */
+  elapsedMs: number;
+
+  /**
+   * Number of cards flipped
+   */
+  flips: number;
+
+  /**
+   * Timestamp when the run finished
+   */
+  achievedAt: number;
+}
@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GameGateway } from './game.gateway';
+import { GameService } from './game.service';
+import { PersonalBestService } from './personal-best.service';
+import { CardPoolService } from '../ai/card-pool.service';
+import { DeckService } from '../deck/deck.service';
+import { RandomService } from '../random/random.service';
+import { SessionService } from '../session/session.service';
+import { PlayerSession } from '../session/entities/player-session.entity';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+import { GameState } from './entities/game.entity';
+
+describe('GameGateway', () => {
+  const boardPairs: BoardPair[] = ['easy', 'medium', 'hard'].map(
+    (difficulty: BoardPair['difficulty'], index) => ({
+      bug: { title: `Bug ${index}`, description: `Symptom ${index}` },
+      solution: { description: `Fix ${index}`, explanation: `Reason ${index}` },
+      difficulty,
+      category: BugCategory.GENERAL,
+    }),
+  );
+
+  let gateway: GameGateway;
+  let gameService: GameService;
+  let sessionService: SessionService;
+  const sessionsPath = join(
+    mkdtempSync(join(tmpdir(), 'sessions-')),
+    'sessions.json',
+  );
+  let emitted: { to: string; name: string; data: any }[];
+  let joined: { playerId: string; roomCode: string }[];
+
+  // Opens a socket for a new player, or again for a known one
+  const connect = (session?: PlayerSession): PlayerSession => {
+    const resolved = sessionService.resolve(session?.sessionToken);
+    sessionService.connect(resolved.session, resolved.resumed);
+    return resolved.session;
+  };
+
+  // A solo game outside any room, like a daily challenge attempt
+  const createSoloGame = (playerId: string): Promise<GameState> =>
+    gameService.createGame(
+      `DAILY-${playerId}`,
+      [{ id: playerId, nickname: 'Alice' }],
+      {
+        mode: 'solo',
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        boardPairs,
+        ranked: true,
+      },
+    );
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    emitted = [];
+    joined = [];
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameGateway,
+        GameService,
+        RandomService,
+        SessionService,
+        { provide: CardPoolService, useValue: {} },
+        { provide: DeckService, useValue: {} },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) =>
+              key === 'SESSIONS_PATH' ? sessionsPath : fallback,
+          },
+        },
+        {
+          provide: PersonalBestService,
+          useValue: { record: jest.fn((run) => ({ best: run, isNew: true })) },
+        },
+      ],
+    }).compile();
+
+    gameService = app.get(GameService);
+    sessionService = app.get(SessionService);
+
+    gateway = app.get(GameGateway);
+    gateway.server = {
+      to: (to: string) => ({
+        emit: (name: string, payload: { data: unknown }) =>
+          emitted.push({ to, name, data: payload.data }),
+      }),
+      in: (playerId: string) => ({
+        socketsJoin: (roomCode: string) => joined.push({ playerId, roomCode }),
+      }),
+    } as any;
+    gateway.afterInit();
+  });
+
+  afterEach(() => {
+    gameService.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('should give a roomless game back to a player who returns in time', async () => {
+    const alice = connect();
+    const game = await createSoloGame(alice.playerId);
+
+    sessionService.disconnect(alice.sessionToken);
+    jest.advanceTimersByTime(29999);
+    connect(alice);
+    jest.advanceTimersByTime(60000);
+
+    expect(game.status).toBe('playing');
+    expect(joined).toEqual([
+      { playerId: alice.playerId, roomCode: game.roomCode },
+    ]);
+
+    const resync = emitted.find(({ name }) => name === 'game:resync');
+    expect(resync.to).toBe(alice.playerId);
+    expect(resync.data).toMatchObject({ gameId: game.gameId, seed: undefined });
+    expect(resync.data.cards.every((card) => !card.content)).toBe(true);
+  });
+
+  it('should forfeit the game once the grace period is over', async () => {
+    const alice = connect();
+    const game = await createSoloGame(alice.playerId);
+
+    sessionService.disconnect(alice.sessionToken);
+    jest.advanceTimersByTime(30000);
+
+    expect(game.status).toBe('finished');
+    expect(game.endReason).toBe('disconnect');
+    expect(emitted.map(({ name }) => name)).toContain('game:over');
+  });
+
+  it('should only start games for one of their players', async () => {
+    const createGame = jest.spyOn(gameService, 'createGame');
+    const client = { data: { playerId: 'mallory' }, emit: jest.fn() };
+
+    await gateway.handleGameInit(client as any, {
+      event: 'game:init',
+      data: {
+        roomCode: 'ROOM01',
+        players: [
+          { id: 'alice', nickname: 'Alice' },
+          { id: 'bob', nickname: 'Bob' },
+        ],
+      },
+    });
+
+    expect(createGame).not.toHaveBeenCalled();
+    expect(client.emit).toHaveBeenCalledWith('game:error', {
+      event: 'game:error',
+      data: { message: 'You can only start games you play in' },
+    });
+  });
+});
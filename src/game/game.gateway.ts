@@ -1,4 +1,5 @@
 import {
+  OnGatewayInit,
   WebSocketGateway,
   WebSocketServer,
   SubscribeMessage,
@@ -7,6 +8,16 @@ import {
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
 import { GameService } from './game.service';
+import {
+  GameConfig,
+  GameEvent,
+  GameState,
+  TeamId,
+} from './entities/game.entity';
+import { resolveBoardSettings, resolveTurnTimeLimit } from './board-settings';
+import { BoardSettings } from '../common/interfaces/room.interface';
+import { SessionService } from '../session/session.service';
+import { getPlayerId } from '../session/player-id';
 
 /**
  * Gateway for handling real-time game-related WebSocket events
@@ -16,18 +27,35 @@ import { GameService } from './game.service';
     origin: '*',
   },
 })
-export class GameGateway {
-  private readonly CARD_FLIP_DELAY = 3000; // 3 seconds delay
-
+export class GameGateway implements OnGatewayInit {
   @WebSocketServer() server: Server;
 
-  constructor(private readonly gameService: GameService) {}
+  constructor(
+    private readonly gameService: GameService,
+    private readonly sessionService: SessionService,
+  ) {}
 
   /**
-   * Handles game initialization when all players are ready
+   * Relays everything that happens in games to the players, and holds the
+   * games of players who go offline
+   */
+  afterInit(): void {
+    this.gameService.events$.subscribe((event) => this.relayGameEvent(event));
+    this.sessionService.events$.subscribe((event) => {
+      if (event.type === 'connected') {
+        this.handlePlayerOnline(event.playerId);
+      } else {
+        this.handlePlayerOffline(event.playerId);
+      }
+    });
+  }
+
+  /**
+   * Handles game initialization when all players are ready. The sender has
+   * to be one of the players.
    */
   @SubscribeMessage('game:init')
-  handleGameInit(
+  async handleGameInit(
     @ConnectedSocket() client: Socket,
     @MessageBody()
     payload: {
@@ -35,34 +63,57 @@ export class GameGateway {
       data: {
         roomCode: string;
         players: { id: string; nickname: string }[];
+        settings?: Partial<BoardSettings> & { turnTimeLimit?: number };
       };
     },
-  ): void {
+  ): Promise<void> {
     console.log('Initializing game:', payload);
 
-    const gameState = this.gameService.createGame(
-      payload.data.roomCode,
-      payload.data.players,
-      {
-        numberOfPairs: 6, // 12 cards total
-        turnTimeLimit: 30,
-        difficultyDistribution: {
-          easy: 2,
-          medium: 2,
-          hard: 2,
-        },
-      },
-    );
+    const playerId = getPlayerId(client);
+    if (!payload.data.players?.some((player) => player.id === playerId)) {
+      client.emit('game:error', {
+        event: 'game:error',
+        data: { message: 'You can only start games you play in' },
+      });
+      return;
+    }
 
-    // Emit initial game state to all players
-    this.server.to(payload.data.roomCode).emit('game:started', {
-      event: 'game:started',
-      data: gameState,
-    });
+    let config: GameConfig;
+    try {
+      const { settings } = payload.data;
+      config = {
+        ...resolveBoardSettings(settings),
+        turnTimeLimit: resolveTurnTimeLimit(settings?.turnTimeLimit),
+      };
+    } catch (error) {
+      client.emit('game:error', {
+        event: 'game:error',
+        data: { message: error.message },
+      });
+      return;
+    }
+
+    // game:started is sent from the game service's events
+    try {
+      await this.gameService.createGame(
+        payload.data.roomCode,
+        payload.data.players,
+        config,
+      );
+    } catch (error) {
+      console.error('Error initializing game:', error);
+      client.emit('game:error', {
+        event: 'game:error',
+        data: {
+          message: 'Failed to start the game',
+        },
+      });
+    }
   }
 
   /**
-   * Handles card flip events
+   * Handles card flip events. Flips, matches and the end of the game are
+   * broadcast from the game service's events.
    */
   @SubscribeMessage('game:flipCard')
   handleCardFlip(
@@ -80,7 +131,7 @@ export class GameGateway {
 
     const result = this.gameService.handleCardFlip(
       payload.data.gameId,
-      client.id,
+      getPlayerId(client),
       payload.data.cardId,
     );
 
@@ -94,144 +145,359 @@ export class GameGateway {
       return;
     }
 
-    const { gameState, action } = result;
+    if (result.action === 'error') {
+      client.emit('game:error', {
+        event: 'game:error',
+        data: {
+          message:
+            'Invalid move. It might not be your turn or the card is already flipped.',
+        },
+      });
+    }
+  }
 
-    switch (action) {
-      case 'error':
-        client.emit('game:error', {
-          event: 'game:error',
-          data: {
-            message:
-              'Invalid move. It might not be your turn or the card is already flipped.',
-          },
-        });
+  /**
+   * Handles forfeit game events. The remaining players are told through the
+   * game:over event.
+   */
+  @SubscribeMessage('game:forfeit')
+  handleForfeit(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        gameId: string;
+      };
+    },
+  ): void {
+    console.log('Forfeit:', payload);
+
+    const game = this.gameService.forfeitGame(
+      payload.data.gameId,
+      getPlayerId(client),
+    );
+    if (!game) {
+      client.emit('game:error', {
+        event: 'game:error',
+        data: {
+          message: 'There is no running game to forfeit',
+        },
+      });
+    }
+  }
+
+  /**
+   * Gives a player who went offline a grace period (DISCONNECT_GRACE_MS) to
+   * come back to each game they are playing, with or without a room
+   * @param playerId - ID of the player
+   */
+  private handlePlayerOffline(playerId: string): void {
+    this.gameService
+      .getRunningGames(playerId)
+      .forEach((game) =>
+        this.gameService.scheduleForfeit(game.gameId, playerId),
+      );
+  }
+
+  /**
+   * Puts a player's new socket back in the games they are playing and sends
+   * it the full state of each. A player coming back within the grace period
+   * keeps their game.
+   * @param playerId - ID of the player
+   */
+  private handlePlayerOnline(playerId: string): void {
+    this.gameService.getRunningGames(playerId).forEach((game) => {
+      this.gameService.cancelScheduledForfeit(game.gameId, playerId);
+      this.server.in(playerId).socketsJoin(game.roomCode);
+      this.server.to(playerId).emit('game:resync', {
+        event: 'game:resync',
+        data: this.gameService.getPlayerView(game, playerId),
+      });
+    });
+  }
+
+  /**
+   * Broadcasts a game service event to the players of the game
+   * @param event - Event raised by the game service
+   */
+  private relayGameEvent(event: GameEvent): void {
+    const { gameState } = event;
+
+    switch (event.type) {
+      case 'gameStarted':
+        this.emitToPlayers(gameState, 'game:started', (view) => view);
         break;
 
-      case 'flip':
-        // Emit card flipped event
-        this.server.to(gameState.roomCode).emit('game:cardFlipped', {
-          event: 'game:cardFlipped',
-          data: {
-            gameState,
-            cardId: payload.data.cardId,
-            playerId: client.id,
-          },
-        });
+      case 'cardFlipped':
+        this.emitFlipEvent(event, 'game:cardFlipped', (view) => ({
+          gameState: view,
+          cardId: event.card.id,
+          card: event.card,
+          playerId: event.playerId,
+        }));
         break;
 
       case 'match':
-        // Emit match found event
-        this.server.to(gameState.roomCode).emit('game:match', {
-          event: 'game:match',
+        this.emitFlipEvent(event, 'game:match', (view) => ({
+          gameState: view,
+          playerId: event.playerId,
+          matchedCards: event.cards.map((card) => card.id),
+          cards: event.cards,
+          explanation: event.cards.find((card) => card.type === 'solution')
+            ?.content.explanation,
+          scoreBreakdown: event.score,
+          message:
+            gameState.mode === 'race'
+              ? 'Match found!'
+              : `${gameState.players[event.playerId].nickname} found a match! They get another turn.`,
+        }));
+        break;
+
+      case 'noMatch':
+        this.emitFlipEvent(event, 'game:noMatch', (view) => ({
+          gameState: view,
+          playerId: event.playerId,
+          cards: event.cards.map((card) => card.id),
+          flippedCards: event.cards,
+          scoreBreakdown: event.score,
+          extraFlip: event.extraFlip,
+          message:
+            gameState.mode === 'race'
+              ? 'No match! Try again...'
+              : event.extraFlip
+                ? `No match! Code Review lets ${gameState.players[event.playerId].nickname} flip again...`
+                : 'No match! Switching turns...',
+        }));
+        break;
+
+      case 'actionPlayed':
+        this.emitActionPlayed(event);
+        break;
+
+      case 'cardsFlippedBack':
+        this.emitFlipEvent(event, 'game:cardsFlippedBack', (view) => ({
+          gameState: view,
+          playerId: event.playerId,
+          cards: event.cards.map((card) => card.id),
+        }));
+        break;
+
+      case 'gameOver':
+        this.emitGameOver(gameState);
+        break;
+
+      case 'turnChanged':
+        this.server.to(gameState.roomCode).emit('game:turnChanged', {
+          event: 'game:turnChanged',
           data: {
-            gameState,
-            playerId: client.id,
-            matchedCards: [
-              gameState.firstFlippedCard,
-              gameState.secondFlippedCard,
-            ],
-            message: `${gameState.players[client.id].nickname} found a match! They get another turn.`,
+            gameState: this.gameService.getPublicView(gameState),
+            reason: event.reason,
+            currentPlayer: {
+              id: gameState.currentTurn,
+              nickname: gameState.players[gameState.currentTurn].nickname,
+            },
+            message:
+              event.reason === 'timeout'
+                ? `Time's up! ${gameState.players[gameState.currentTurn].nickname}'s turn`
+                : `${gameState.players[gameState.currentTurn].nickname}'s turn`,
           },
         });
-
-        // Check if game is over
-        if (gameState.status === 'finished') {
-          const result = this.gameService.getWinners(payload.data.gameId);
-          if (result) {
-            const { winners, isTie } = result;
-            this.server.to(gameState.roomCode).emit('game:over', {
-              event: 'game:over',
-              data: {
-                gameState,
-                winners,
-                isTie,
-                message: isTie
-                  ? "It's a tie!"
-                  : `${winners[0].nickname} wins with ${winners[0].score} points!`,
-              },
-            });
-          }
-        }
         break;
 
-      case 'noMatch':
-        // Emit no match event
-        this.server.to(gameState.roomCode).emit('game:noMatch', {
-          event: 'game:noMatch',
+      case 'timerTick':
+        this.server.to(gameState.roomCode).emit('game:timerTick', {
+          event: 'game:timerTick',
           data: {
-            gameState,
-            playerId: client.id,
-            cards: [gameState.firstFlippedCard, gameState.secondFlippedCard],
-            message: 'No match! Switching turns...',
+            gameId: gameState.gameId,
+            currentTurn: gameState.currentTurn,
+            remainingSeconds: event.remainingSeconds,
+            turnTimeLimit: gameState.turnTimeLimit,
           },
         });
-
-        // After CARD_FLIP_DELAY, emit turn change
-        setTimeout(() => {
-          this.server.to(gameState.roomCode).emit('game:turnChanged', {
-            event: 'game:turnChanged',
-            data: {
-              gameState,
-              currentPlayer: {
-                id: gameState.currentTurn,
-                nickname: gameState.players[gameState.currentTurn].nickname,
-              },
-              message: `${gameState.players[gameState.currentTurn].nickname}'s turn`,
-            },
-          });
-        }, this.CARD_FLIP_DELAY);
         break;
     }
   }
 
   /**
-   * Handles forfeit game events
+   * Sends a flip outcome. In a race only the flipping player sees the cards;
+   * everyone gets a progress update without card contents.
    */
-  @SubscribeMessage('game:forfeit')
-  handleForfeit(
-    @ConnectedSocket() client: Socket,
-    @MessageBody()
-    payload: {
-      event: string;
-      data: {
-        gameId: string;
-      };
-    },
+  private emitFlipEvent(
+    event: GameEvent & { playerId: string },
+    name: string,
+    build: (view: GameState) => object,
   ): void {
-    // Handle forfeit logic here
-    // This could involve ending the game early and declaring the other player as winner
-    console.log('Forfeit:', payload);
+    const { gameState, playerId } = event;
+
+    if (gameState.mode !== 'race') {
+      this.server.to(gameState.roomCode).emit(name, {
+        event: name,
+        data: build(this.gameService.getPublicView(gameState)),
+      });
+      return;
+    }
+
+    this.server.to(playerId).emit(name, {
+      event: name,
+      data: build(this.gameService.getPlayerView(gameState, playerId)),
+    });
+
+    if (event.type === 'cardFlipped' || event.type === 'cardsFlippedBack') {
+      return; // Progress only changes when a pair is tried
+    }
+
+    const player = gameState.players[playerId];
+    this.server.to(gameState.roomCode).emit('game:raceProgress', {
+      event: 'game:raceProgress',
+      data: {
+        gameId: gameState.gameId,
+        playerId,
+        nickname: player.nickname,
+        matchesFound: player.matchesFound,
+        totalPairs: gameState.cards.length / 2,
+        flips: player.flips,
+        score: player.score,
+      },
+    });
   }
 
-  @SubscribeMessage('game:turnTimeout')
-  async handleTimerExpiration(
-    @MessageBody()
-    payload: {
-      event: string;
-      data: { gameId: string; playerId: string };
-    },
-  ) {
-    console.log('Timer expiration:', payload);
-    const result = this.gameService.handleTimerExpiration(
-      payload.data.gameId,
-      payload.data.playerId,
-    );
+  /**
+   * Tells everyone which action card was played. The pair revealed by a
+   * Hotfix is only sent to the player who flipped it.
+   */
+  private emitActionPlayed(
+    event: Extract<GameEvent, { type: 'actionPlayed' }>,
+  ): void {
+    const { gameState, playerId, card } = event;
+    const nickname = gameState.players[playerId].nickname;
+    const messages = {
+      hotfix: `${nickname} played Hotfix and peeks at a pair!`,
+      regression: `${nickname} played Regression! The face-down cards were reshuffled.`,
+      codeReview: `${nickname} played Code Review and gets an extra flip after their next miss.`,
+    };
+
+    this.server.to(gameState.roomCode).emit('game:actionPlayed', {
+      event: 'game:actionPlayed',
+      data: {
+        gameState: this.gameService.getPublicView(gameState),
+        playerId,
+        card,
+        action: card.action,
+        message: messages[card.action],
+      },
+    });
 
-    console.log('Result:', result);
-    if (result) {
-      // Broadcast the updated game state to all players in the room
-      this.server.to(result.gameState.roomCode).emit('game:turnChanged', {
-        event: 'game:turnChanged',
+    if (event.revealedCards) {
+      this.server.to(playerId).emit('game:hotfixReveal', {
+        event: 'game:hotfixReveal',
         data: {
-          gameState: result.gameState,
-          currentPlayer: {
-            id: result.gameState.currentTurn,
-            nickname:
-              result.gameState.players[result.gameState.currentTurn].nickname,
-          },
-          message: `${result.gameState.players[result.gameState.currentTurn].nickname}'s turn`,
+          gameId: gameState.gameId,
+          cards: event.revealedCards,
+          durationMs: event.revealMs,
+        },
+      });
+    }
+
+    if (card.action === 'regression') {
+      this.server.to(gameState.roomCode).emit('game:cardsReshuffled', {
+        event: 'game:cardsReshuffled',
+        data: {
+          gameId: gameState.gameId,
+          positions: Object.fromEntries(
+            gameState.cards.map((c) => [c.id, c.position]),
+          ),
+          coordinates: Object.fromEntries(
+            gameState.cards.map((c) => [
+              c.id,
+              { row: c.row, column: c.column },
+            ]),
+          ),
         },
       });
     }
   }
+
+  /**
+   * Sends an event to every player of a game with the game state as that
+   * player may see it
+   */
+  private emitToPlayers(
+    gameState: GameState,
+    name: string,
+    build: (view: GameState) => object,
+  ): void {
+    if (gameState.mode !== 'race') {
+      this.server.to(gameState.roomCode).emit(name, {
+        event: name,
+        data: build(this.gameService.getPublicView(gameState)),
+      });
+      return;
+    }
+
+    Object.keys(gameState.players).forEach((playerId) => {
+      this.server.to(playerId).emit(name, {
+        event: name,
+        data: build(this.gameService.getPlayerView(gameState, playerId)),
+      });
+    });
+  }
+
+  /**
+   * Announces the result of a finished game with its study summary
+   * @param gameState - The finished game
+   */
+  private emitGameOver(gameState: GameState): void {
+    const result = this.gameService.getWinners(gameState.gameId);
+    if (!result) return;
+
+    const { winners, isTie, winningTeams } = result;
+    const forfeiter = gameState.players[gameState.forfeitedBy];
+    let outcome: string;
+    if (gameState.timeAttack) {
+      const { elapsedMs, flips, score, isNewPersonalBest } =
+        gameState.timeAttack;
+      outcome = `Board cleared in ${Math.round(elapsedMs / 1000)}s with ${flips} flips: ${score} points!${isNewPersonalBest ? ' New personal best!' : ''}`;
+    } else if (
+      gameState.mode === 'race' &&
+      gameState.endReason === 'completed'
+    ) {
+      outcome = `${winners[0].nickname} cleared the board first!`;
+    } else if (winningTeams) {
+      const teamNames = winningTeams.map((team) => this.teamName(team.id));
+      outcome = isTie
+        ? `It's a tie between ${teamNames.join(' and ')} with ${winningTeams[0].score} points!`
+        : `${teamNames[0]} wins with ${winningTeams[0].score} points!`;
+    } else if (winners.length === 0) {
+      outcome = 'Nobody wins this time.';
+    } else if (isTie) {
+      outcome = `It's a tie between ${winners.map((winner) => winner.nickname).join(', ')} with ${winners[0].score} points!`;
+    } else {
+      outcome = `${winners[0].nickname} wins with ${winners[0].score} points!`;
+    }
+
+    this.emitToPlayers(gameState, 'game:over', (view) => ({
+      gameState: view,
+      winners,
+      isTie,
+      winningTeam: winningTeams && !isTie ? winningTeams[0].id : undefined,
+      teams: gameState.teams,
+      reason: gameState.endReason,
+      forfeitedBy: forfeiter
+        ? { id: forfeiter.id, nickname: forfeiter.nickname }
+        : undefined,
+      timeAttack: gameState.timeAttack,
+      studySummary: this.gameService.getStudySummary(gameState.gameId),
+      message: forfeiter
+        ? `${forfeiter.nickname} ${gameState.endReason === 'disconnect' ? 'disconnected' : 'forfeited'}. ${outcome}`
+        : outcome,
+    }));
+  }
+
+  /**
+   * Gets the display name of a team
+   */
+  private teamName(team: TeamId): string {
+    return `Team ${team.charAt(0).toUpperCase()}${team.slice(1)}`;
+  }
 }
@@ -1,13 +1,20 @@
 import { Module } from '@nestjs/common';
 import { GameService } from './game.service';
 import { GameGateway } from './game.gateway';
-import { AiService } from '../ai/ai.service';
+import { PersonalBestService } from './personal-best.service';
+import { PersonalBestController } from './personal-best.controller';
+import { AiModule } from '../ai/ai.module';
+import { DeckModule } from '../deck/deck.module';
+import { RandomModule } from '../random/random.module';
+import { SessionModule } from '../session/session.module';
 
 /**
  * Module for handling game-related functionality
  */
 @Module({
-  providers: [GameService, GameGateway, AiService],
+  imports: [AiModule, DeckModule, RandomModule, SessionModule],
+  controllers: [PersonalBestController],
+  providers: [GameService, GameGateway, PersonalBestService],
   exports: [GameService],
 })
 export class GameModule {}
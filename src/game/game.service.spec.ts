@@ -0,0 +1,778 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { GameService } from './game.service';
+import { CardPoolService } from '../ai/card-pool.service';
+import { DeckService } from '../deck/deck.service';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+import { Card } from './entities/card.entity';
+import { GameEvent, GameState, TeamId } from './entities/game.entity';
+import { PersonalBestService } from './personal-best.service';
+import { RandomService } from '../random/random.service';
+
+describe('GameService', () => {
+  const boardPairs: BoardPair[] = ['easy', 'medium', 'hard'].map(
+    (difficulty: BoardPair['difficulty'], index) => ({
+      bug: { title: `Bug ${index}`, description: `Symptom ${index}` },
+      solution: {
+        description: `Fix ${index}`,
+        code: `fix(${index});`,
+        explanation: `Reason ${index}`,
+      },
+      difficulty,
+      category: BugCategory.GENERAL,
+    }),
+  );
+
+  let gameService: GameService;
+  let personalBestService: { record: jest.Mock };
+
+  const players = [
+    { id: 'alice', nickname: 'Alice' },
+    { id: 'bob', nickname: 'Bob' },
+  ];
+
+  const createGame = (
+    gamePlayers: { id: string; nickname: string; team?: TeamId }[] = players,
+    mode: GameState['mode'] = 'classic',
+  ): Promise<GameState> =>
+    gameService.createGame('ROOM01', gamePlayers, {
+      mode,
+      numberOfPairs: 3,
+      turnTimeLimit: 30,
+      difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+      cardSource: 'deck',
+    });
+
+  // Finds both cards of the pair with the given index
+  const pairCards = (game: GameState, index: number): [Card, Card] => {
+    const bug = game.cards.find(
+      (card) => card.type === 'bug' && card.content.title === `Bug ${index}`,
+    );
+    const solution = game.cards.find((card) => card.id === bug.matchingCardId);
+    return [bug, solution];
+  };
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    personalBestService = {
+      record: jest.fn((run) => ({ best: run, isNew: true })),
+    };
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        GameService,
+        RandomService,
+        { provide: CardPoolService, useValue: {} },
+        {
+          provide: DeckService,
+          useValue: {
+            drawPairs: () => ({
+              pairs: boardPairs,
+              substitutions: [],
+              outsideFilter: 0,
+            }),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (_key: string, fallback?: unknown) => fallback },
+        },
+        { provide: PersonalBestService, useValue: personalBestService },
+      ],
+    }).compile();
+
+    gameService = app.get<GameService>(GameService);
+  });
+
+  afterEach(() => {
+    gameService.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  describe('createGame', () => {
+    it('should lay out structured content on both cards of a pair', async () => {
+      const game = await createGame();
+      const [bug, solution] = pairCards(game, 0);
+
+      expect(game.cards).toHaveLength(6);
+      expect(bug.pairId).toBe(solution.pairId);
+      expect(bug.content).toEqual({ title: 'Bug 0', description: 'Symptom 0' });
+      expect(solution.content).toEqual({
+        title: 'Fix 0',
+        code: 'fix(0);',
+        explanation: 'Reason 0',
+      });
+    });
+
+    it('should place every card on its own cell of the grid, row by row', async () => {
+      const game = await gameService.createGame('ROOM01', players, {
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        cardSource: 'deck',
+        board: { columns: 4, rows: 3 },
+      });
+
+      expect(game.board).toEqual({ columns: 4, rows: 3 });
+      expect(game.cards[5]).toMatchObject({ position: 5, row: 1, column: 1 });
+      expect(
+        new Set(game.cards.map((card) => `${card.row},${card.column}`)).size,
+      ).toBe(6);
+    });
+
+    it('should deal the same board again from the seed of a game', async () => {
+      const config = {
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        cardSource: 'deck' as const,
+        actionCards: true,
+      };
+      const layout = (game: GameState) =>
+        game.cards.map((card) => card.content.title);
+
+      const original = await gameService.createGame('ROOM01', players, config);
+      const replay = await gameService.createGame('ROOM02', players, {
+        ...config,
+        seed: original.seed,
+      });
+
+      expect(replay.gameId).not.toBe(original.gameId);
+      expect(replay.seed).toBe(original.seed);
+      expect(layout(replay)).toEqual(layout(original));
+    });
+
+    it('should refuse a board too small for its cards', async () => {
+      await expect(
+        gameService.createGame('ROOM01', players, {
+          numberOfPairs: 3,
+          turnTimeLimit: 30,
+          difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+          cardSource: 'deck',
+          actionCards: true,
+          board: { columns: 4, rows: 2 },
+        }),
+      ).rejects.toThrow('9 cards do not fit on the board');
+    });
+  });
+
+  describe('turns', () => {
+    it('should rotate turns in join order for three players', async () => {
+      const game = await createGame([
+        ...players,
+        { id: 'carol', nickname: 'Carol' },
+      ]);
+      const [bug0] = pairCards(game, 0);
+      const [bug1] = pairCards(game, 1);
+
+      const turns = [game.currentTurn];
+      for (let i = 0; i < 3; i++) {
+        gameService.handleCardFlip(game.gameId, game.currentTurn, bug0.id);
+        gameService.handleCardFlip(game.gameId, game.currentTurn, bug1.id);
+        jest.advanceTimersByTime(1000);
+        turns.push(game.currentTurn);
+      }
+
+      expect(turns).toEqual(['alice', 'bob', 'carol', 'alice']);
+      expect(game.players.bob.isCurrentTurn).toBe(false);
+      expect(game.players.alice.isCurrentTurn).toBe(true);
+    });
+
+    it('should report every tied leader as a winner', async () => {
+      const game = await createGame([
+        ...players,
+        { id: 'carol', nickname: 'Carol' },
+      ]);
+      game.players.alice.score = 30;
+      game.players.carol.score = 30;
+      game.players.bob.score = 10;
+
+      const { winners, isTie } = gameService.getWinners(game.gameId);
+
+      expect(isTie).toBe(true);
+      expect(winners.map((winner) => winner.id)).toEqual(['alice', 'carol']);
+    });
+  });
+
+  describe('turn timer', () => {
+    let events: GameEvent[];
+
+    beforeEach(() => {
+      events = [];
+      gameService.events$.subscribe((event) => events.push(event));
+    });
+
+    it('should tick and pass the turn once time runs out', async () => {
+      const game = await createGame();
+      const [bug0] = pairCards(game, 0);
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+
+      jest.advanceTimersByTime(29000);
+      expect(game.currentTurn).toBe('alice');
+      expect(events.at(-1)).toMatchObject({
+        type: 'timerTick',
+        remainingSeconds: 1,
+      });
+
+      jest.advanceTimersByTime(1000);
+      expect(game.currentTurn).toBe('bob');
+      expect(game.firstFlippedCard).toBeUndefined();
+      expect(bug0.isFlipped).toBe(false);
+      expect(events.at(-1)).toMatchObject({
+        type: 'turnChanged',
+        reason: 'timeout',
+      });
+    });
+
+    it('should restart the clock after a match', async () => {
+      const game = await createGame();
+      const [bug0, solution0] = pairCards(game, 0);
+
+      jest.advanceTimersByTime(20000);
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+      gameService.handleCardFlip(game.gameId, 'alice', solution0.id);
+
+      jest.advanceTimersByTime(20000);
+      expect(game.currentTurn).toBe('alice');
+    });
+
+    it('should not tick during the no-match reveal or after the game ends', async () => {
+      const game = await createGame();
+      const [bug0] = pairCards(game, 0);
+      const [bug1] = pairCards(game, 1);
+
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+      gameService.handleCardFlip(game.gameId, 'alice', bug1.id);
+      events = [];
+      jest.advanceTimersByTime(999);
+      expect(events).toEqual([]);
+
+      jest.advanceTimersByTime(1);
+      expect(events).toMatchObject([
+        { type: 'turnChanged', reason: 'noMatch' },
+      ]);
+
+      for (const index of [0, 1, 2]) {
+        const [bug, solution] = pairCards(game, index);
+        gameService.handleCardFlip(game.gameId, 'bob', bug.id);
+        gameService.handleCardFlip(game.gameId, 'bob', solution.id);
+      }
+      expect(game.status).toBe('finished');
+
+      events = [];
+      jest.advanceTimersByTime(60000);
+      expect(events).toEqual([]);
+    });
+  });
+
+  describe('forfeitGame', () => {
+    const threePlayers = [...players, { id: 'carol', nickname: 'Carol' }];
+
+    it('should end the game and crown the top scorer among the rest', async () => {
+      const events: GameEvent[] = [];
+      gameService.events$.subscribe((event) => events.push(event));
+      const game = await createGame(threePlayers);
+      game.players.alice.score = 50;
+      game.players.bob.score = 20;
+      game.players.carol.score = 10;
+
+      gameService.forfeitGame(game.gameId, 'alice');
+
+      expect(game).toMatchObject({
+        status: 'finished',
+        endReason: 'forfeit',
+        forfeitedBy: 'alice',
+      });
+      expect(game.endedAt).toBeDefined();
+      expect(events.at(-1)).toMatchObject({
+        type: 'gameOver',
+        reason: 'forfeit',
+      });
+      const { winners } = gameService.getWinners(game.gameId);
+      expect(winners.map((winner) => winner.id)).toEqual(['bob']);
+
+      events.length = 0;
+      jest.advanceTimersByTime(60000);
+      expect(events).toEqual([]);
+    });
+
+    it('should only forfeit running games of the player', async () => {
+      const game = await createGame();
+
+      expect(gameService.forfeitGame(game.gameId, 'mallory')).toBeNull();
+      expect(gameService.forfeitGame(game.gameId, 'bob')).toBe(game);
+      expect(gameService.forfeitGame(game.gameId, 'alice')).toBeNull();
+      expect(game.forfeitedBy).toBe('bob');
+    });
+
+    it('should forfeit a disconnected player after the grace period', async () => {
+      const game = await createGame();
+
+      gameService.scheduleForfeit(game.gameId, 'bob');
+      jest.advanceTimersByTime(29000);
+      expect(game.status).toBe('playing');
+
+      jest.advanceTimersByTime(1000);
+      expect(game).toMatchObject({
+        status: 'finished',
+        endReason: 'disconnect',
+        forfeitedBy: 'bob',
+      });
+    });
+
+    it('should keep the game going if the player comes back', async () => {
+      const game = await createGame();
+
+      gameService.scheduleForfeit(game.gameId, 'bob');
+      expect(gameService.cancelScheduledForfeit(game.gameId, 'bob')).toBe(true);
+      jest.advanceTimersByTime(60000);
+
+      expect(game.status).toBe('playing');
+    });
+  });
+
+  describe('solo time attack', () => {
+    it('should keep the turn and score the run by time and flips', async () => {
+      const game = await createGame([players[0]], 'solo');
+      const [bug0, solution0] = pairCards(game, 0);
+      const [bug1, solution1] = pairCards(game, 1);
+      const [bug2, solution2] = pairCards(game, 2);
+
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+      gameService.handleCardFlip(game.gameId, 'alice', bug1.id);
+      jest.advanceTimersByTime(60000);
+      expect(game.currentTurn).toBe('alice');
+      expect(game.status).toBe('playing');
+
+      for (const [bug, solution] of [
+        [bug0, solution0],
+        [bug1, solution1],
+        [bug2, solution2],
+      ]) {
+        gameService.handleCardFlip(game.gameId, 'alice', bug.id);
+        gameService.handleCardFlip(game.gameId, 'alice', solution.id);
+      }
+
+      // 300 points for 3 pairs, minus 2 extra flips and 60 seconds
+      expect(game.timeAttack).toMatchObject({
+        flips: 8,
+        elapsedMs: 60000,
+        score: 300 - 2 * 10 - 60 * 2,
+        isNewPersonalBest: true,
+      });
+      expect(game.players.alice.score).toBe(game.timeAttack.score);
+      expect(personalBestService.record).toHaveBeenCalledWith(
+        expect.objectContaining({ nickname: 'Alice', numberOfPairs: 3 }),
+      );
+    });
+
+    it('should not give away face-down cards of a ranked game', async () => {
+      const game = await gameService.createGame('DAILY', [players[0]], {
+        mode: 'solo',
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        boardPairs,
+        ranked: true,
+      });
+      const [bug0, solution0] = pairCards(game, 0);
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+
+      const view = gameService.getPlayerView(game, 'alice');
+      const shown = (id: string) => view.cards.find((card) => card.id === id);
+
+      expect(view.seed).toBeUndefined();
+      expect(shown(bug0.id)).toBe(bug0);
+      expect(shown(solution0.id)).toMatchObject({
+        content: undefined,
+        pairId: null,
+        matchingCardId: null,
+        difficulty: undefined,
+        category: undefined,
+      });
+      expect(solution0.content).toBeDefined();
+
+      gameService.forfeitGame(game.gameId, 'alice');
+      expect(gameService.getPlayerView(game, 'alice')).toBe(game);
+    });
+
+    it('should not let card ids of a ranked game give the pairs away', async () => {
+      const game = await gameService.createGame('DAILY', [players[0]], {
+        mode: 'solo',
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        boardPairs,
+        ranked: true,
+      });
+
+      const view = gameService.getPublicView(game);
+
+      // Ids only tell where a card lies, which every player can see anyway
+      view.cards.forEach((card, index) => {
+        expect(card.id).toBe(`card_${index}`);
+        expect(card.position).toBe(index);
+      });
+      // The real pairs still point at each other
+      game.cards
+        .filter((card) => card.type === 'bug')
+        .forEach((bug) => {
+          const solution = game.cards.find(
+            (card) => card.id === bug.matchingCardId,
+          );
+          expect(solution.matchingCardId).toBe(bug.id);
+          expect(solution.pairId).toBe(bug.pairId);
+        });
+    });
+
+    it('should only take one player', async () => {
+      await expect(createGame(players, 'solo')).rejects.toThrow(
+        'Solo games take exactly one player',
+      );
+    });
+  });
+
+  describe('race', () => {
+    // Finds both cards of a pair on a player's race board
+    const boardPair = (game: GameState, playerId: string, index: number) => {
+      const [bug, solution] = pairCards(game, index);
+      const cards = game.boards[playerId].cards;
+      return [
+        cards.find((card) => card.id === bug.id),
+        cards.find((card) => card.id === solution.id),
+      ];
+    };
+
+    it('should give every player the same layout on a private board', async () => {
+      const game = await createGame(players, 'race');
+      const layout = (cards: Card[]) => cards.map((card) => card.id);
+
+      expect(layout(game.boards.alice.cards)).toEqual(layout(game.cards));
+      expect(layout(game.boards.bob.cards)).toEqual(layout(game.cards));
+
+      const [bug0] = boardPair(game, 'bob', 0);
+      gameService.handleCardFlip(game.gameId, 'bob', bug0.id);
+      expect(bug0.isFlipped).toBe(true);
+      expect(boardPair(game, 'alice', 0)[0].isFlipped).toBe(false);
+      expect(game.cards.some((card) => card.isFlipped)).toBe(false);
+    });
+
+    it('should let everyone flip at once and end when one board is clear', async () => {
+      const game = await createGame(players, 'race');
+      const [aliceBug0] = boardPair(game, 'alice', 0);
+      const [bobBug1, bobSolution1] = boardPair(game, 'bob', 1);
+
+      gameService.handleCardFlip(game.gameId, 'alice', aliceBug0.id);
+      expect(
+        gameService.handleCardFlip(game.gameId, 'bob', bobBug1.id).action,
+      ).toBe('flip');
+      expect(
+        gameService.handleCardFlip(game.gameId, 'bob', bobSolution1.id).action,
+      ).toBe('match');
+      jest.advanceTimersByTime(60000);
+
+      for (const index of [0, 2]) {
+        const [bug, solution] = boardPair(game, 'bob', index);
+        gameService.handleCardFlip(game.gameId, 'bob', bug.id);
+        gameService.handleCardFlip(game.gameId, 'bob', solution.id);
+      }
+
+      expect(game.status).toBe('finished');
+      expect(game.boards.bob.finishedAt).toBeDefined();
+      expect(gameService.getWinners(game.gameId).winners).toEqual([
+        game.players.bob,
+      ]);
+    });
+
+    it('should only show players their own board', async () => {
+      const game = await createGame(players, 'race');
+      const [bug0] = boardPair(game, 'alice', 0);
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+
+      const view = gameService.getPlayerView(game, 'bob');
+
+      expect(view.boards).toBeUndefined();
+      expect(view.cards).toBe(game.boards.bob.cards);
+      expect(view.firstFlippedCard).toBeUndefined();
+      expect(gameService.getPlayerView(game, 'alice').firstFlippedCard).toBe(
+        bug0.id,
+      );
+    });
+  });
+
+  describe('scoring', () => {
+    let events: GameEvent[];
+
+    const createScoredGame = (scoring: GameState['scoring']) =>
+      gameService.createGame('ROOM01', players, {
+        scoring,
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        cardSource: 'deck',
+      });
+
+    // Flips two cards and returns the score change of the outcome
+    const flipPair = (game: GameState, playerId: string, cards: Card[]) => {
+      cards.forEach((card) =>
+        gameService.handleCardFlip(game.gameId, playerId, card.id),
+      );
+      const outcome = events[events.length - 1];
+      return 'score' in outcome ? outcome.score : undefined;
+    };
+
+    beforeEach(() => {
+      events = [];
+      gameService.events$.subscribe((event) => events.push(event));
+    });
+
+    it('should score classic matches by difficulty', async () => {
+      const game = await createScoredGame('classic');
+
+      expect(flipPair(game, 'alice', pairCards(game, 2))).toEqual({
+        items: [{ reason: 'hard pair', points: 30 }],
+        total: 30,
+      });
+    });
+
+    it('should add a streak bonus for consecutive matches', async () => {
+      const game = await createScoredGame('streak');
+
+      flipPair(game, 'alice', pairCards(game, 0));
+      expect(flipPair(game, 'alice', pairCards(game, 1))).toEqual({
+        items: [
+          { reason: 'medium pair', points: 20 },
+          { reason: '2x streak', points: 10 },
+        ],
+        total: 30,
+      });
+      expect(game.players.alice.score).toBe(40);
+    });
+
+    it('should reward matching early in the turn', async () => {
+      const game = await createScoredGame('speed');
+      jest.advanceTimersByTime(15000);
+
+      expect(flipPair(game, 'alice', pairCards(game, 2))).toEqual({
+        items: [
+          { reason: 'hard pair', points: 30 },
+          { reason: 'speed bonus', points: 8 },
+        ],
+        total: 38,
+      });
+    });
+
+    it('should only penalize misses with an already revealed card', async () => {
+      const game = await createScoredGame('penalty');
+      const [bug0] = pairCards(game, 0);
+      const [bug1] = pairCards(game, 1);
+      const [bug2] = pairCards(game, 2);
+
+      expect(flipPair(game, 'alice', [bug0, bug1]).total).toBe(0);
+      jest.advanceTimersByTime(1000);
+
+      expect(flipPair(game, 'bob', [bug0, bug2])).toEqual({
+        items: [{ reason: 'missed with a revealed card', points: -10 }],
+        total: -10,
+      });
+      expect(game.players.bob.score).toBe(-10);
+    });
+  });
+
+  describe('action cards', () => {
+    let events: GameEvent[];
+
+    const createActionGame = () =>
+      gameService.createGame('ROOM01', players, {
+        numberOfPairs: 3,
+        turnTimeLimit: 30,
+        difficultyDistribution: { easy: 1, medium: 1, hard: 1 },
+        cardSource: 'deck',
+        actionCards: true,
+      });
+
+    const actionCard = (game: GameState, action: Card['action']) =>
+      game.cards.find((card) => card.action === action);
+
+    beforeEach(() => {
+      events = [];
+      gameService.events$.subscribe((event) => events.push(event));
+    });
+
+    it('should mix one of each action card into the board', async () => {
+      const game = await createActionGame();
+
+      expect(game.cards).toHaveLength(9);
+      expect(
+        game.cards
+          .filter((card) => card.type === 'action')
+          .map((c) => c.action),
+      ).toEqual(expect.arrayContaining(['hotfix', 'regression', 'codeReview']));
+      expect(Object.keys(game.pairProgress)).toHaveLength(3);
+    });
+
+    it('should end the game once every pair is matched', async () => {
+      const game = await createActionGame();
+
+      for (const index of [0, 1, 2]) {
+        const [bug, solution] = pairCards(game, index);
+        gameService.handleCardFlip(game.gameId, 'alice', bug.id);
+        gameService.handleCardFlip(game.gameId, 'alice', solution.id);
+      }
+
+      expect(game.status).toBe('finished');
+    });
+
+    it('should show a Hotfix pair only to its player, keeping the turn', async () => {
+      const game = await createActionGame();
+      const hotfix = actionCard(game, 'hotfix');
+
+      const result = gameService.handleCardFlip(
+        game.gameId,
+        'alice',
+        hotfix.id,
+      );
+
+      expect(result.action).toBe('action');
+      expect(hotfix.isMatched).toBe(true);
+      const played = events.find((event) => event.type === 'actionPlayed');
+      const revealed = 'revealedCards' in played ? played.revealedCards : [];
+      expect(revealed).toHaveLength(2);
+      expect(revealed[0].pairId).toBe(revealed[1].pairId);
+      expect(revealed.every((card) => !card.isFlipped)).toBe(true);
+      expect(game.currentTurn).toBe('alice');
+      expect(game.players.alice.flips).toBe(0);
+    });
+
+    it('should reshuffle face-down cards on a Regression', async () => {
+      const game = await createActionGame();
+      const [bug0] = pairCards(game, 0);
+      const bug0Position = bug0.position;
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+
+      gameService.handleCardFlip(
+        game.gameId,
+        'alice',
+        actionCard(game, 'regression').id,
+      );
+
+      expect(bug0.position).toBe(bug0Position);
+      expect(game.cards.map((card) => card.position)).toEqual(
+        game.cards.map((_, index) => index),
+      );
+      expect(game.cards[4]).toMatchObject({ row: 1, column: 0 });
+      expect(game.firstFlippedCard).toBe(bug0.id);
+    });
+
+    it('should let a Code Review player flip again after a miss', async () => {
+      const game = await createActionGame();
+      const [bug0, solution0] = pairCards(game, 0);
+      const [bug1] = pairCards(game, 1);
+      gameService.handleCardFlip(
+        game.gameId,
+        'alice',
+        actionCard(game, 'codeReview').id,
+      );
+
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+      gameService.handleCardFlip(game.gameId, 'alice', bug1.id);
+      jest.advanceTimersByTime(1000);
+
+      expect(game.currentTurn).toBe('alice');
+      expect(bug0.isFlipped).toBe(true);
+      expect(bug1.isFlipped).toBe(false);
+      expect(
+        gameService.handleCardFlip(game.gameId, 'alice', solution0.id).action,
+      ).toBe('match');
+      expect(game.players.alice.extraFlips).toBe(0);
+    });
+  });
+
+  describe('team', () => {
+    const teamPlayers: { id: string; nickname: string; team: TeamId }[] = [
+      { id: 'alice', nickname: 'Alice', team: 'red' },
+      { id: 'carol', nickname: 'Carol', team: 'red' },
+      { id: 'bob', nickname: 'Bob', team: 'blue' },
+      { id: 'dave', nickname: 'Dave', team: 'blue' },
+    ];
+
+    it('should alternate between teams, then between teammates', async () => {
+      const game = await createGame(teamPlayers, 'team');
+      const [bug0] = pairCards(game, 0);
+      const [bug1] = pairCards(game, 1);
+
+      const turns = [game.currentTurn];
+      for (let i = 0; i < 4; i++) {
+        gameService.handleCardFlip(game.gameId, game.currentTurn, bug0.id);
+        gameService.handleCardFlip(game.gameId, game.currentTurn, bug1.id);
+        jest.advanceTimersByTime(1000);
+        turns.push(game.currentTurn);
+      }
+
+      expect(turns).toEqual(['alice', 'bob', 'carol', 'dave', 'alice']);
+    });
+
+    it('should add matches to the team score and crown the team', async () => {
+      const game = await createGame(teamPlayers, 'team');
+      const [bug0, solution0] = pairCards(game, 0);
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+      gameService.handleCardFlip(game.gameId, 'alice', solution0.id);
+
+      expect(game.teams.red).toMatchObject({ score: 10, matchesFound: 1 });
+      expect(game.teams.blue).toMatchObject({ score: 0, matchesFound: 0 });
+
+      const { winners, isTie, winningTeams } = gameService.getWinners(
+        game.gameId,
+      );
+      expect(isTie).toBe(false);
+      expect(winningTeams.map((team) => team.id)).toEqual(['red']);
+      expect(winners.map((winner) => winner.id)).toEqual(['alice', 'carol']);
+    });
+
+    it('should need players on both teams', async () => {
+      await expect(
+        createGame(
+          teamPlayers.map((player) => ({ ...player, team: 'red' as TeamId })),
+          'team',
+        ),
+      ).rejects.toThrow('two teams');
+    });
+  });
+
+  describe('getStudySummary', () => {
+    it('should report who matched each pair and the failed attempts', async () => {
+      const game = await createGame();
+      const [bug0, solution0] = pairCards(game, 0);
+      const [bug1] = pairCards(game, 1);
+
+      gameService.handleCardFlip(game.gameId, 'alice', bug0.id);
+      gameService.handleCardFlip(game.gameId, 'alice', bug1.id);
+      jest.advanceTimersByTime(1000);
+
+      gameService.handleCardFlip(game.gameId, 'bob', bug0.id);
+      const result = gameService.handleCardFlip(
+        game.gameId,
+        'bob',
+        solution0.id,
+      );
+      expect(result.action).toBe('match');
+
+      const summary = gameService.getStudySummary(game.gameId);
+      const entry = (index: number) =>
+        summary.find((item) => item.bug.title === `Bug ${index}`);
+
+      expect(summary).toHaveLength(3);
+      expect(entry(0)).toMatchObject({
+        explanation: 'Reason 0',
+        matchedBy: { id: 'bob', nickname: 'Bob' },
+        failedAttempts: 1,
+      });
+      expect(entry(1)).toMatchObject({ failedAttempts: 1 });
+      expect(entry(1).matchedBy).toBeUndefined();
+      expect(entry(2)).toMatchObject({ failedAttempts: 0 });
+    });
+  });
+});
@@ -1,41 +1,190 @@
-import { Injectable } from '@nestjs/common';
-import { AiService } from '../ai/ai.service';
-import { Card, CardDifficulty, CardType } from './entities/card.entity';
-import { GameState, GameConfig, PlayerGameState } from './entities/game.entity';
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Observable, Subject } from 'rxjs';
+import { CardPoolService } from '../ai/card-pool.service';
+import { DeckService } from '../deck/deck.service';
+import {
+  BoardPair,
+  BugCategory,
+} from '../deck/entities/bug-solution-pair.entity';
+import { countPairs } from '../deck/pair-selection';
+import {
+  ActionCardKind,
+  Card,
+  CardContent,
+  CardType,
+} from './entities/card.entity';
+import {
+  GameState,
+  GameConfig,
+  BoardSize,
+  PlayerGameState,
+  CardSource,
+  BoardReport,
+  PairProgress,
+  StudyEntry,
+  GameEvent,
+  TurnChangeReason,
+  GameEndReason,
+  TimeAttackResult,
+  RaceBoard,
+  TeamId,
+  TeamGameState,
+  BotLevel,
+  ScoreBreakdown,
+} from './entities/game.entity';
+import { createScoringStrategy } from './scoring/scoring-strategy.factory';
+import { ScoringContext } from './scoring/scoring-strategy.interface';
+import { PersonalBestService } from './personal-best.service';
+import { RandomService } from '../random/random.service';
+import { RandomSource } from '../random/random-source';
+import { cellCount, fitBoardSize } from './board-settings';
+
+/**
+ * Action cards mixed into boards that play with them
+ */
+export const ACTION_CARD_KINDS: ActionCardKind[] = [
+  'hotfix',
+  'regression',
+  'codeReview',
+];
+
+/**
+ * What is printed on each action card
+ */
+const ACTION_CARD_CONTENT: Record<ActionCardKind, CardContent> = {
+  hotfix: {
+    title: 'Hotfix',
+    description: 'Take a quick peek at a random pair',
+  },
+  regression: {
+    title: 'Regression',
+    description: 'Every face-down card is reshuffled',
+  },
+  codeReview: {
+    title: 'Code Review',
+    description: 'Your next miss gets a second try at the partner card',
+  },
+};
 
 /**
  * Service responsible for managing game logic
  */
 @Injectable()
-export class GameService {
+export class GameService implements OnModuleDestroy {
+  private readonly NO_MATCH_REVEAL_MS = 1000; // Time to study unmatched cards
+  private readonly HOTFIX_REVEAL_MS = 2000; // Time a Hotfix shows its pair
+  private readonly TIMER_TICK_MS = 1000;
+
+  // Time-attack scoring: points per pair, minus penalties for flips beyond
+  // the perfect run and for every second taken
+  private readonly TIME_ATTACK_PAIR_POINTS = 100;
+  private readonly TIME_ATTACK_EXTRA_FLIP_PENALTY = 10;
+  private readonly TIME_ATTACK_SECOND_PENALTY = 2;
+
   private games: Map<string, GameState> = new Map();
+  private turnTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Keyed by `${gameId}:${playerId}`
+  private forfeitTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Random sequence of each running game, started from its seed
+  private randoms: Map<string, RandomSource> = new Map();
+  private readonly events = new Subject<GameEvent>();
+
+  /**
+   * Everything that happens in games, in the order it happens
+   */
+  readonly events$: Observable<GameEvent> = this.events.asObservable();
 
-  constructor(private readonly aiService: AiService) {}
+  constructor(
+    private readonly cardPoolService: CardPoolService,
+    private readonly deckService: DeckService,
+    private readonly configService: ConfigService,
+    private readonly personalBestService: PersonalBestService,
+    private readonly randomService: RandomService,
+  ) {}
 
   /**
    * Creates a new game state
    * @param roomCode - Code of the room
-   * @param players - Array of player IDs and nicknames
+   * @param players - Array of player IDs and nicknames (and teams in team
+   * games, and memory skills of bots), in join order
    * @param config - Game configuration
    * @returns The created game state
    */
   async createGame(
     roomCode: string,
-    players: { id: string; nickname: string }[],
+    players: {
+      id: string;
+      nickname: string;
+      team?: TeamId;
+      botLevel?: BotLevel;
+    }[],
     config: GameConfig,
   ): Promise<GameState> {
-    // Generate bug-solution pairs using AI
-    const pairs = await this.aiService.generateBugSolutionPairs(
-      config.numberOfPairs,
-    );
+    if (countPairs(config.difficultyDistribution) !== config.numberOfPairs) {
+      throw new Error('Difficulty distribution must add up to numberOfPairs');
+    }
+
+    const mode = config.mode ?? 'classic';
+    const scoring = config.scoring ?? 'classic';
+    createScoringStrategy(scoring); // Fails early on an unknown rule
+    if (mode === 'solo' && players.length !== 1) {
+      throw new Error('Solo games take exactly one player');
+    }
+    if (mode === 'race' && config.actionCards) {
+      throw new Error('Action cards are not available in races');
+    }
+
+    const cardCount =
+      config.numberOfPairs * 2 +
+      (config.actionCards ? ACTION_CARD_KINDS.length : 0);
+    const board = config.board ?? fitBoardSize(cardCount);
+    if (cellCount(board) < cardCount) {
+      throw new Error(`${cardCount} cards do not fit on the board`);
+    }
+    if (
+      mode === 'team' &&
+      (players.some((player) => !player.team) ||
+        new Set(players.map((player) => player.team)).size !== 2)
+    ) {
+      throw new Error('Team games need every player on one of two teams');
+    }
+
+    // Everything random in the game comes from its seed
+    const seed = config.seed ?? this.randomService.createSeed();
+    const random = this.randomService.forSeed(seed);
+
+    // Get bug-solution pairs from the configured source
+    const { pairs, report } = await this.loadPairs(config, random);
+    if (report.substitutions.length > 0) {
+      console.warn('Board difficulty mix adjusted:', report.substitutions);
+    }
+    if (report.outsideFilter > 0) {
+      console.warn(
+        `${report.outsideFilter} pairs drawn from outside the deck filter`,
+      );
+    }
+    if (report.fallbackRate > 0) {
+      console.warn(
+        `${Math.round(report.fallbackRate * 100)}% of AI pairs fell back to the deck`,
+      );
+    }
 
     // Create cards from the pairs
-    const cards = this.generateCards(pairs);
+    const cards = this.generateCards(pairs, board, random, config.actionCards);
+    const turnOrder =
+      mode === 'team'
+        ? this.buildTeamTurnOrder(players)
+        : players.map((player) => player.id);
 
     const gameState: GameState = {
-      gameId: Math.random().toString(36).substring(7),
+      gameId: this.generateGameId(),
       status: 'playing',
+      mode,
+      scoring,
       roomCode,
+      board,
+      seed,
       cards,
       players: players.reduce(
         (acc, player) => {
@@ -44,26 +193,107 @@ export class GameService {
             nickname: player.nickname,
             score: 0,
             matchesFound: 0,
+            isCurrentTurn: player.id === turnOrder[0],
+            flips: 0,
+            streak: 0,
+            extraFlips: 0,
+            team: mode === 'team' ? player.team : undefined,
+            botLevel: player.botLevel,
           };
           return acc;
         },
         {} as Record<string, any>,
       ),
-      currentTurn: players[0].id,
+      turnOrder,
+      turnIndex: 0,
+      currentTurn: turnOrder[0],
       turnNumber: 1,
       firstFlippedCard: null,
       secondFlippedCard: null,
       startedAt: Date.now(),
       turnTimeLimit: config.turnTimeLimit,
       currentTurnStartedAt: Date.now(),
+      boardReport: report,
+      ranked: config.ranked || undefined,
+      pairProgress: cards
+        .filter((card) => card.pairId)
+        .reduce(
+          (acc, card) => {
+            acc[card.pairId] = { failedAttempts: 0 };
+            return acc;
+          },
+          {} as Record<string, PairProgress>,
+        ),
     };
 
+    if (mode === 'team') {
+      gameState.teams = players.reduce(
+        (acc, player) => {
+          acc[player.team] ??= {
+            id: player.team,
+            playerIds: [],
+            score: 0,
+            matchesFound: 0,
+          };
+          acc[player.team].playerIds.push(player.id);
+          return acc;
+        },
+        {} as Partial<Record<TeamId, TeamGameState>>,
+      );
+    }
+
+    // Everyone races on an identical copy of the layout
+    if (mode === 'race') {
+      gameState.boards = players.reduce(
+        (acc, player) => {
+          acc[player.id] = { cards: cards.map((card) => ({ ...card })) };
+          return acc;
+        },
+        {} as Record<string, RaceBoard>,
+      );
+    }
+
     this.games.set(gameState.gameId, gameState);
+    this.randoms.set(gameState.gameId, random);
+    this.startTurnTimer(gameState);
+    this.events.next({ type: 'gameStarted', gameState });
     return gameState;
   }
 
   /**
-   * Handles a card flip action
+   * Stops all timers when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.turnTimers.forEach((timer) => clearInterval(timer));
+    this.turnTimers.clear();
+    this.forfeitTimers.forEach((timer) => clearTimeout(timer));
+    this.forfeitTimers.clear();
+    this.events.complete();
+  }
+
+  /**
+   * Retrieves a game by its ID
+   * @param gameId - ID of the game
+   * @returns The game state or null if not found
+   */
+  getGame(gameId: string): GameState | null {
+    return this.games.get(gameId) || null;
+  }
+
+  /**
+   * Lists the games a player is still playing
+   * @param playerId - ID of the player
+   * @returns Running games the player is in
+   */
+  getRunningGames(playerId: string): GameState[] {
+    return [...this.games.values()].filter(
+      (game) => game.status === 'playing' && game.players[playerId],
+    );
+  }
+
+  /**
+   * Handles a card flip action. The outcome is published on events$.
+   * @returns The game and what the flip did
    */
   handleCardFlip(
     gameId: string,
@@ -71,13 +301,19 @@ export class GameService {
     cardId: string,
   ): {
     gameState: GameState;
-    action: 'flip' | 'match' | 'noMatch' | 'error';
+    action: 'flip' | 'match' | 'noMatch' | 'action' | 'error';
   } | null {
     const game = this.games.get(gameId);
     if (!game) return null;
+    if (game.mode === 'race')
+      return this.handleRaceFlip(game, playerId, cardId);
 
-    // Validate it's the player's turn
-    if (game.currentTurn !== playerId) {
+    // Validate it's the player's turn and the last two cards are settled
+    if (
+      game.status !== 'playing' ||
+      game.currentTurn !== playerId ||
+      game.secondFlippedCard
+    ) {
       return {
         gameState: game,
         action: 'error',
@@ -93,12 +329,29 @@ export class GameService {
       };
     }
 
+    // Action cards take effect right away and leave the pair flips alone
+    if (card.type === 'action') {
+      this.playActionCard(game, playerId, card);
+      return {
+        gameState: game,
+        action: 'action',
+      };
+    }
+
     // Flip the card
     card.isFlipped = true;
+    card.timesFlipped++;
+    game.players[playerId].flips++;
 
     // If this is the first card of the turn
     if (!game.firstFlippedCard) {
       game.firstFlippedCard = cardId;
+      this.events.next({
+        type: 'cardFlipped',
+        gameState: game,
+        playerId,
+        card,
+      });
       return {
         gameState: game,
         action: 'flip',
@@ -115,22 +368,26 @@ export class GameService {
       card.isMatched = true;
       firstCard.isMatched = true;
 
-      // Update player score
-      const player = game.players[playerId];
-      player.matchesFound++;
-      player.score += this.calculateScore(card.difficulty);
+      const score = this.scoreMatch(game, playerId, [firstCard, card]);
 
       // Clear flipped cards
       game.firstFlippedCard = undefined;
       game.secondFlippedCard = undefined;
 
+      this.events.next({
+        type: 'match',
+        gameState: game,
+        playerId,
+        cards: [firstCard, card],
+        score,
+      });
+
       // Check if game is over
-      if (game.cards.every((c) => c.isMatched)) {
-        game.status = 'finished';
-        game.endedAt = Date.now();
+      if (this.isBoardCleared(game.cards)) {
+        this.endGame(game, 'completed');
       } else {
         // Player gets another turn for finding a match
-        game.currentTurnStartedAt = Date.now();
+        this.startTurnTimer(game);
       }
 
       return {
@@ -138,17 +395,49 @@ export class GameService {
         action: 'match',
       };
     } else {
-      // No match, automatically switch turns after delay
+      // Both pairs were seen but not matched this turn
+      game.pairProgress[card.pairId].failedAttempts++;
+      if (firstCard) game.pairProgress[firstCard.pairId].failedAttempts++;
+      const score = this.scoreMiss(game, playerId, [firstCard, card]);
+
+      // No match, show both cards for a moment, then switch turns. A player
+      // with an extra flip keeps the first card up and flips again instead.
+      const player = game.players[playerId];
+      const extraFlip = player.extraFlips > 0;
+      if (extraFlip) player.extraFlips--;
+
+      this.stopTurnTimer(gameId);
       setTimeout(() => {
-        if (firstCard) firstCard.isFlipped = false;
+        if (game.status !== 'playing') return;
+
         card.isFlipped = false;
-        game.firstFlippedCard = undefined;
         game.secondFlippedCard = undefined;
+        if (extraFlip) {
+          this.startTurnTimer(game);
+          this.events.next({
+            type: 'cardsFlippedBack',
+            gameState: game,
+            playerId,
+            cards: [card],
+          });
+          return;
+        }
+
+        if (firstCard) firstCard.isFlipped = false;
+        game.firstFlippedCard = undefined;
 
         // Switch turns
-        this.switchTurns(game);
-      }, 1000);
+        this.switchTurns(game, 'noMatch');
+      }, this.NO_MATCH_REVEAL_MS);
 
+      this.events.next({
+        type: 'noMatch',
+        gameState: game,
+        playerId,
+        cards: [firstCard, card],
+        score,
+        extraFlip,
+      });
       return {
         gameState: game,
         action: 'noMatch',
@@ -157,16 +446,467 @@ export class GameService {
   }
 
   /**
-   * Switches turns between players
+   * Gets a game as one player may see it. In a race, `cards` and the flipped
+   * card IDs are the player's own board and other boards are left out, so
+   * opponents only learn each other's progress through `players`.
+   * @param game - The game
+   * @param playerId - ID of the viewing player
+   * @returns The game state to send to that player
+   */
+  getPlayerView(game: GameState, playerId: string): GameState {
+    if (game.mode !== 'race') return this.getPublicView(game);
+
+    const board = game.boards[playerId];
+    return this.getPublicView({
+      ...game,
+      cards: board?.cards ?? [],
+      firstFlippedCard: board?.firstFlippedCard,
+      secondFlippedCard: board?.secondFlippedCard,
+      boards: undefined,
+    });
+  }
+
+  /**
+   * Gets a game as it may be shown at the table. While a ranked game runs,
+   * face-down cards leave out their content, which card they match and
+   * anything that narrows the pair down (difficulty, category), and the seed
+   * is left out, so a script cannot read the board off the state.
+   * @param game - The game
+   * @returns The game state to send to its players
    */
-  private switchTurns(game: GameState): void {
+  getPublicView(game: GameState): GameState {
+    if (!game.ranked || game.status !== 'playing') return game;
+
+    return {
+      ...game,
+      seed: undefined,
+      cards: game.cards.map((card) =>
+        card.isFlipped || card.isMatched
+          ? card
+          : {
+              ...card,
+              content: undefined,
+              pairId: null,
+              matchingCardId: null,
+              difficulty: undefined,
+              category: undefined,
+            },
+      ),
+    };
+  }
+
+  /**
+   * Handles a card flip on a player's own race board. Players flip at the
+   * same time, so there are no turns.
+   */
+  private handleRaceFlip(
+    game: GameState,
+    playerId: string,
+    cardId: string,
+  ): { gameState: GameState; action: 'flip' | 'match' | 'noMatch' | 'error' } {
+    const board = game.boards[playerId];
+    const card = board?.cards.find((c) => c.id === cardId);
+    if (
+      game.status !== 'playing' ||
+      !board ||
+      board.secondFlippedCard ||
+      !card ||
+      card.isMatched ||
+      card.isFlipped
+    ) {
+      return { gameState: game, action: 'error' };
+    }
+
+    card.isFlipped = true;
+    card.timesFlipped++;
+    game.players[playerId].flips++;
+
+    if (!board.firstFlippedCard) {
+      board.firstFlippedCard = cardId;
+      this.events.next({
+        type: 'cardFlipped',
+        gameState: game,
+        playerId,
+        card,
+      });
+      return { gameState: game, action: 'flip' };
+    }
+
+    const firstCard = board.cards.find((c) => c.id === board.firstFlippedCard);
+    if (firstCard.matchingCardId === cardId) {
+      card.isMatched = true;
+      firstCard.isMatched = true;
+      board.firstFlippedCard = undefined;
+      const score = this.scoreMatch(game, playerId, [firstCard, card]);
+
+      this.events.next({
+        type: 'match',
+        gameState: game,
+        playerId,
+        cards: [firstCard, card],
+        score,
+      });
+
+      // The first player to clear their board wins
+      if (this.isBoardCleared(board.cards)) {
+        board.finishedAt = Date.now();
+        this.endGame(game, 'completed');
+      }
+      return { gameState: game, action: 'match' };
+    }
+
+    board.secondFlippedCard = cardId;
+    game.pairProgress[card.pairId].failedAttempts++;
+    game.pairProgress[firstCard.pairId].failedAttempts++;
+    const score = this.scoreMiss(game, playerId, [firstCard, card]);
+
+    setTimeout(() => {
+      if (game.status !== 'playing') return;
+
+      firstCard.isFlipped = false;
+      card.isFlipped = false;
+      board.firstFlippedCard = undefined;
+      board.secondFlippedCard = undefined;
+      this.events.next({
+        type: 'cardsFlippedBack',
+        gameState: game,
+        playerId,
+        cards: [firstCard, card],
+      });
+    }, this.NO_MATCH_REVEAL_MS);
+
+    this.events.next({
+      type: 'noMatch',
+      gameState: game,
+      playerId,
+      cards: [firstCard, card],
+      score,
+    });
+    return { gameState: game, action: 'noMatch' };
+  }
+
+  /**
+   * Resolves an action card flipped by the player whose turn it is. The card
+   * is used up and the player carries on with their turn.
+   */
+  private playActionCard(game: GameState, playerId: string, card: Card): void {
+    card.isFlipped = true;
+    card.isMatched = true;
+    card.timesFlipped++;
+
+    let revealedCards: Card[] | undefined;
+    switch (card.action) {
+      case 'hotfix':
+        revealedCards = this.pickHiddenPair(
+          game.cards,
+          this.randoms.get(game.gameId),
+        );
+        break;
+      case 'regression':
+        this.reshuffleHiddenCards(game);
+        break;
+      case 'codeReview':
+        game.players[playerId].extraFlips++;
+        break;
+    }
+
+    this.events.next({
+      type: 'actionPlayed',
+      gameState: game,
+      playerId,
+      card,
+      revealedCards,
+      revealMs: revealedCards ? this.HOTFIX_REVEAL_MS : undefined,
+    });
+  }
+
+  /**
+   * Picks a random pair with both cards face down
+   * @returns Both cards of the pair, or undefined if there is none
+   */
+  private pickHiddenPair(
+    cards: Card[],
+    random: RandomSource,
+  ): Card[] | undefined {
+    const bugs = cards.filter(
+      (card) =>
+        card.type === 'bug' &&
+        !card.isMatched &&
+        !card.isFlipped &&
+        !cards.find((c) => c.id === card.matchingCardId).isFlipped,
+    );
+    if (bugs.length === 0) return undefined;
+
+    const bug = random.pick(bugs);
+    return [bug, cards.find((c) => c.id === bug.matchingCardId)];
+  }
+
+  /**
+   * Shuffles the face-down cards among their own places on the board,
+   * leaving matched and face-up cards where they are
+   */
+  private reshuffleHiddenCards(game: GameState): void {
+    const places = game.cards.flatMap((card, index) =>
+      !card.isMatched && !card.isFlipped ? [index] : [],
+    );
+    const shuffled = this.randoms
+      .get(game.gameId)
+      .shuffle(places.map((index) => game.cards[index]));
+
+    places.forEach((index, i) => {
+      game.cards[index] = shuffled[i];
+      Object.assign(shuffled[i], this.getGridSlot(index, game.board));
+    });
+  }
+
+  /**
+   * Checks whether every pair on a board is matched. Unplayed action cards
+   * don't keep a board from being cleared.
+   */
+  private isBoardCleared(cards: Card[]): boolean {
+    return cards.every((card) => card.isMatched || card.type === 'action');
+  }
+
+  /**
+   * Credits a player with a matched pair
+   * @returns How the match was scored, or undefined in solo runs
+   */
+  private scoreMatch(
+    game: GameState,
+    playerId: string,
+    cards: Card[],
+  ): ScoreBreakdown | undefined {
+    // In a race every player matches every pair; the first one is credited
+    const progress = game.pairProgress[cards[0].pairId];
+    progress.matchedBy = progress.matchedBy ?? playerId;
+
+    const player = game.players[playerId];
+    player.matchesFound++;
+    player.streak++;
+    if (game.teams) game.teams[player.team].matchesFound++;
+
+    // Solo runs are scored once the board is cleared
+    if (game.mode === 'solo') return undefined;
+
+    const score = createScoringStrategy(game.scoring).scoreMatch(
+      this.getScoringContext(game, player, cards),
+    );
+    this.addScore(game, player, score);
+    return score;
+  }
+
+  /**
+   * Ends a player's streak after a missed pair and applies any penalty
+   * @returns How the miss was scored, or undefined in solo runs
+   */
+  private scoreMiss(
+    game: GameState,
+    playerId: string,
+    cards: Card[],
+  ): ScoreBreakdown | undefined {
+    const player = game.players[playerId];
+    player.streak = 0;
+    if (game.mode === 'solo') return undefined;
+
+    const score = createScoringStrategy(game.scoring).scoreMiss?.(
+      this.getScoringContext(game, player, cards),
+    ) ?? { items: [], total: 0 };
+    this.addScore(game, player, score);
+    return score;
+  }
+
+  /**
+   * Describes a flipped pair to the game's scoring strategy
+   */
+  private getScoringContext(
+    game: GameState,
+    player: PlayerGameState,
+    cards: Card[],
+  ): ScoringContext {
+    // Only turn-based games run a turn timer
+    const hasTurnTimer = game.mode !== 'solo' && game.mode !== 'race';
+
+    return {
+      cards,
+      streak: player.streak,
+      turnTimeLimit: game.turnTimeLimit,
+      turnRemainingMs: hasTurnTimer
+        ? game.currentTurnStartedAt + game.turnTimeLimit * 1000 - Date.now()
+        : undefined,
+    };
+  }
+
+  /**
+   * Adds a score change to a player and their team
+   */
+  private addScore(
+    game: GameState,
+    player: PlayerGameState,
+    score: ScoreBreakdown,
+  ): void {
+    player.score += score.total;
+    const team = game.teams?.[player.team];
+    if (team) team.score += score.total;
+  }
+
+  /**
+   * Builds a turn order that alternates between the two teams, and between
+   * teammates within each team. A smaller team's players take turns more
+   * often so the teams still alternate.
+   */
+  private buildTeamTurnOrder(
+    players: { id: string; team?: TeamId }[],
+  ): string[] {
+    const teams = [...new Set(players.map((player) => player.team))].map(
+      (team) =>
+        players
+          .filter((player) => player.team === team)
+          .map((player) => player.id),
+    );
+    const rounds = Math.max(...teams.map((team) => team.length));
+
+    return Array.from({ length: rounds }).flatMap((_, round) =>
+      teams.map((team) => team[round % team.length]),
+    );
+  }
+
+  /**
+   * Ends a game early because a player gave up or left
+   * @param gameId - ID of the game
+   * @param playerId - ID of the player forfeiting
+   * @param reason - `forfeit` when the player chose to, `disconnect` when
+   * they lost their connection and did not come back
+   * @returns The finished game or null if the player is not in a running game
+   */
+  forfeitGame(
+    gameId: string,
+    playerId: string,
+    reason: Exclude<GameEndReason, 'completed'> = 'forfeit',
+  ): GameState | null {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'playing' || !game.players[playerId]) {
+      return null;
+    }
+
+    console.log(`${playerId} forfeited game ${gameId} (${reason})`);
+    game.forfeitedBy = playerId;
+    this.endGame(game, reason);
+    return game;
+  }
+
+  /**
+   * Forfeits a disconnected player's game unless they come back within the
+   * grace period (DISCONNECT_GRACE_MS, 30 seconds by default)
+   * @param gameId - ID of the game
+   * @param playerId - ID of the disconnected player
+   */
+  scheduleForfeit(gameId: string, playerId: string): void {
+    const key = `${gameId}:${playerId}`;
+    const graceMs = Number(
+      this.configService.get('DISCONNECT_GRACE_MS', 30000),
+    );
+
+    clearTimeout(this.forfeitTimers.get(key));
+    this.forfeitTimers.set(
+      key,
+      setTimeout(() => {
+        this.forfeitTimers.delete(key);
+        this.forfeitGame(gameId, playerId, 'disconnect');
+      }, graceMs),
+    );
+  }
+
+  /**
+   * Cancels a pending forfeit because the player came back
+   * @param gameId - ID of the game
+   * @param playerId - ID of the returning player
+   * @returns Whether a forfeit was pending
+   */
+  cancelScheduledForfeit(gameId: string, playerId: string): boolean {
+    const key = `${gameId}:${playerId}`;
+    const timer = this.forfeitTimers.get(key);
+    if (!timer) return false;
+
+    clearTimeout(timer);
+    this.forfeitTimers.delete(key);
+    return true;
+  }
+
+  /**
+   * Finishes a game, stops its timers and announces the result
+   */
+  private endGame(game: GameState, reason: GameEndReason): void {
+    game.status = 'finished';
+    game.endedAt = Date.now();
+    game.endReason = reason;
+    game.firstFlippedCard = undefined;
+    game.secondFlippedCard = undefined;
+
+    if (game.mode === 'solo' && reason === 'completed') {
+      game.timeAttack = this.finishTimeAttack(game);
+    }
+
+    this.stopTurnTimer(game.gameId);
+    this.randoms.delete(game.gameId);
+    this.forfeitTimers.forEach((timer, key) => {
+      if (key.startsWith(`${game.gameId}:`)) {
+        clearTimeout(timer);
+        this.forfeitTimers.delete(key);
+      }
+    });
+
+    this.events.next({ type: 'gameOver', gameState: game, reason });
+  }
+
+  /**
+   * Scores a cleared solo board and records it as a personal best
+   */
+  private finishTimeAttack(game: GameState): TimeAttackResult {
+    const player = game.players[game.currentTurn];
+    const pairCards = game.cards.filter((card) => card.pairId);
+    const numberOfPairs = pairCards.length / 2;
+    const elapsedMs = game.endedAt - game.startedAt;
+    const extraFlips = Math.max(0, player.flips - pairCards.length);
+
+    player.score = Math.max(
+      0,
+      numberOfPairs * this.TIME_ATTACK_PAIR_POINTS -
+        extraFlips * this.TIME_ATTACK_EXTRA_FLIP_PENALTY -
+        Math.floor(elapsedMs / 1000) * this.TIME_ATTACK_SECOND_PENALTY,
+    );
+
+    const { best, isNew } = this.personalBestService.record({
+      nickname: player.nickname,
+      numberOfPairs,
+      score: player.score,
+      elapsedMs,
+      flips: player.flips,
+      achievedAt: game.endedAt,
+    });
+
+    return {
+      elapsedMs,
+      flips: player.flips,
+      score: player.score,
+      personalBest: best,
+      isNewPersonalBest: isNew,
+    };
+  }
+
+  /**
+   * Passes the turn to the next player in join order and restarts the timer.
+   * A solo player keeps the turn.
+   */
+  private switchTurns(game: GameState, reason: TurnChangeReason): void {
     console.log('Switching turns');
-    const playerIds = Object.keys(game.players);
-    const currentIndex = playerIds.indexOf(game.currentTurn);
-    const nextIndex = (currentIndex + 1) % playerIds.length;
+    if (game.mode !== 'solo') {
+      // A streak ends with the turn, even when the timer ran out
+      game.players[game.currentTurn].streak = 0;
+      game.turnIndex = (game.turnIndex + 1) % game.turnOrder.length;
+      game.currentTurn = game.turnOrder[game.turnIndex];
+    }
 
     // Update turn information
-    game.currentTurn = playerIds[nextIndex];
     game.turnNumber++;
     game.currentTurnStartedAt = Date.now();
 
@@ -174,6 +914,59 @@ export class GameService {
     Object.values(game.players).forEach((player) => {
       player.isCurrentTurn = player.id === game.currentTurn;
     });
+
+    this.startTurnTimer(game);
+    this.events.next({ type: 'turnChanged', gameState: game, reason });
+  }
+
+  /**
+   * Starts the clock for the current turn, replacing any running one. Solo
+   * runs and races have no turns, so nothing ever expires.
+   */
+  private startTurnTimer(game: GameState): void {
+    this.stopTurnTimer(game.gameId);
+    game.currentTurnStartedAt = Date.now();
+    if (game.mode === 'solo' || game.mode === 'race') return;
+
+    this.turnTimers.set(
+      game.gameId,
+      setInterval(() => this.tickTurnTimer(game.gameId), this.TIMER_TICK_MS),
+    );
+  }
+
+  /**
+   * Stops the clock of a game
+   */
+  private stopTurnTimer(gameId: string): void {
+    const timer = this.turnTimers.get(gameId);
+    if (timer) {
+      clearInterval(timer);
+      this.turnTimers.delete(gameId);
+    }
+  }
+
+  /**
+   * Publishes the time left in the turn, or ends the turn once it runs out
+   */
+  private tickTurnTimer(gameId: string): void {
+    const game = this.games.get(gameId);
+    if (!game || game.status !== 'playing') {
+      this.stopTurnTimer(gameId);
+      return;
+    }
+
+    const remainingMs =
+      game.currentTurnStartedAt + game.turnTimeLimit * 1000 - Date.now();
+    if (remainingMs > 0) {
+      this.events.next({
+        type: 'timerTick',
+        gameState: game,
+        remainingSeconds: Math.ceil(remainingMs / 1000),
+      });
+      return;
+    }
+
+    this.expireTurn(game);
   }
 
   /**
@@ -182,11 +975,41 @@ export class GameService {
   getWinners(gameId: string): {
     winners: PlayerGameState[];
     isTie: boolean;
+    winningTeams?: TeamGameState[];
   } | null {
     const game = this.games.get(gameId);
     if (!game) return null;
 
-    const players = Object.values(game.players);
+    // Teams win together; a team whose player forfeited cannot win
+    if (game.teams) {
+      const forfeitedTeam = game.players[game.forfeitedBy]?.team;
+      const teams = Object.values(game.teams).filter(
+        (team) => team.id !== forfeitedTeam,
+      );
+      const maxTeamScore = Math.max(...teams.map((team) => team.score));
+      const winningTeams = teams.filter((team) => team.score === maxTeamScore);
+
+      return {
+        winners: winningTeams.flatMap((team) =>
+          team.playerIds.map((id) => game.players[id]),
+        ),
+        isTie: winningTeams.length > 1,
+        winningTeams,
+      };
+    }
+
+    // The first player to clear a race board wins outright
+    const finisher = Object.entries(game.boards ?? {}).find(
+      ([, board]) => board.finishedAt,
+    );
+    if (finisher) {
+      return { winners: [game.players[finisher[0]]], isTie: false };
+    }
+
+    // A player who forfeited cannot win
+    const players = Object.values(game.players).filter(
+      (p) => p.id !== game.forfeitedBy,
+    );
     const maxScore = Math.max(...players.map((p) => p.score));
     const winners = players.filter((p) => p.score === maxScore);
 
@@ -197,125 +1020,249 @@ export class GameService {
   }
 
   /**
-   * Generates cards from bug-solution pairs
+   * Builds the end-of-game study summary: every pair on the board with its
+   * explanation, who matched it and how many failed attempts it took
+   * @param gameId - ID of the game
+   * @returns One entry per pair or null if the game is not found
+   */
+  getStudySummary(gameId: string): StudyEntry[] | null {
+    const game = this.games.get(gameId);
+    if (!game) return null;
+
+    return game.cards
+      .filter((card) => card.type === 'bug')
+      .map((bug) => {
+        const solution = game.cards.find((c) => c.id === bug.matchingCardId);
+        const { matchedBy, failedAttempts } = game.pairProgress[bug.pairId];
+        const matcher = matchedBy ? game.players[matchedBy] : undefined;
+
+        return {
+          pairId: bug.pairId,
+          bug: bug.content,
+          solution: solution.content,
+          explanation: solution.content.explanation ?? '',
+          difficulty: bug.difficulty,
+          matchedBy: matcher
+            ? { id: matcher.id, nickname: matcher.nickname }
+            : undefined,
+          failedAttempts,
+        };
+      });
+  }
+
+  /**
+   * Loads bug-solution pairs given in the config, from the room's custom
+   * deck, the AI card pool or the curated deck
+   * @param config - Game configuration
+   * @param random - Random sequence of the game. AI pool pairs arrive in
+   * generation order, so only deck boards are dealt again from a seed.
+   * @returns Pairs for the board and how they were assembled
+   */
+  private async loadPairs(
+    config: GameConfig,
+    random: RandomSource,
+  ): Promise<{ pairs: BoardPair[]; report: BoardReport }> {
+    if (config.boardPairs) {
+      if (config.boardPairs.length !== config.numberOfPairs) {
+        throw new Error(`Board needs exactly ${config.numberOfPairs} pairs`);
+      }
+      return {
+        pairs: config.boardPairs,
+        report: {
+          source: 'deck',
+          substitutions: [],
+          outsideFilter: 0,
+          fallbackRate: 0,
+        },
+      };
+    }
+
+    if (config.customPairs) {
+      if (config.customPairs.length < config.numberOfPairs) {
+        throw new Error(
+          `Custom deck needs at least ${config.numberOfPairs} pairs`,
+        );
+      }
+
+      // The host picked these pairs, so the deck filter does not apply
+      const { pairs, substitutions } = this.deckService.drawPairs(
+        config.difficultyDistribution,
+        {},
+        config.customPairs,
+        random,
+      );
+      return {
+        pairs,
+        report: {
+          source: 'custom',
+          substitutions,
+          outsideFilter: 0,
+          fallbackRate: 0,
+        },
+      };
+    }
+
+    const source =
+      config.cardSource ??
+      this.configService.get<CardSource>('CARD_SOURCE', 'ai');
+
+    if (source === 'deck') {
+      const { pairs, substitutions, outsideFilter } =
+        this.deckService.drawPairs(
+          config.difficultyDistribution,
+          config.deckFilter,
+          undefined,
+          random,
+        );
+      return {
+        pairs,
+        report: { source, substitutions, outsideFilter, fallbackRate: 0 },
+      };
+    }
+
+    const { pairs, substitutions, outsideFilter, fallbackRate } =
+      this.cardPoolService.drawPairs(
+        config.difficultyDistribution,
+        config.deckFilter,
+      );
+    return {
+      pairs,
+      report: { source, substitutions, outsideFilter, fallbackRate },
+    };
+  }
+
+  /**
+   * Generates cards from bug-solution pairs, plus the action cards if asked,
+   * and lays them out on the grid in a random order
    */
   private generateCards(
-    pairs: Array<{
-      bug: string;
-      solution: string;
-      difficulty: 'easy' | 'medium' | 'hard';
-    }>,
+    pairs: BoardPair[],
+    board: BoardSize,
+    random: RandomSource,
+    actionCards = false,
   ): Card[] {
-    const cards: Card[] = [];
-    let position = 0;
+    const cards: Omit<Card, 'position' | 'row' | 'column'>[] = [];
+    let nextId = 0;
 
-    pairs.forEach((pair) => {
-      const bugId = `card_${position}`;
-      const solutionId = `card_${position + 1}`;
+    pairs.forEach((pair, index) => {
+      const pairId = `pair_${index}`;
+      const bugId = `card_${nextId++}`;
+      const solutionId = `card_${nextId++}`;
 
       // Create bug card
       cards.push({
         id: bugId,
+        pairId,
         type: 'bug' as CardType,
-        content: pair.bug,
+        content: {
+          title: pair.bug.title,
+          description: pair.bug.description,
+        },
         difficulty: pair.difficulty,
+        category: pair.category,
         isFlipped: false,
         isMatched: false,
+        timesFlipped: 0,
         matchingCardId: solutionId,
-        position: position++,
       });
 
       // Create solution card
       cards.push({
         id: solutionId,
+        pairId,
         type: 'solution' as CardType,
-        content: pair.solution,
+        content: {
+          title: pair.solution.description,
+          code: pair.solution.code,
+          explanation: pair.solution.explanation,
+        },
         difficulty: pair.difficulty,
+        category: pair.category,
         isFlipped: false,
         isMatched: false,
+        timesFlipped: 0,
         matchingCardId: bugId,
-        position: position++,
       });
     });
 
-    return this.shuffleCards(cards);
+    // One of each action card, when the room plays with them
+    if (actionCards) {
+      ACTION_CARD_KINDS.forEach((action) => {
+        cards.push({
+          id: `card_${nextId++}`,
+          pairId: null,
+          type: 'action',
+          action,
+          content: ACTION_CARD_CONTENT[action],
+          difficulty: 'easy',
+          category: BugCategory.GENERAL,
+          isFlipped: false,
+          isMatched: false,
+          timesFlipped: 0,
+          matchingCardId: null,
+        });
+      });
+    }
+
+    // Ids follow the shuffled layout, so they say nothing about the pairs
+    const shuffled = random.shuffle(cards);
+    const ids = new Map(
+      shuffled.map((card, index) => [card.id, `card_${index}`]),
+    );
+    return shuffled.map((card, index) => ({
+      ...card,
+      id: ids.get(card.id),
+      matchingCardId: card.matchingCardId && ids.get(card.matchingCardId),
+      ...this.getGridSlot(index, board),
+    }));
   }
 
   /**
-   * Calculates score based on card difficulty
-   * @param difficulty - Difficulty of the card
-   * @returns Score value
+   * Gets the place of a card on the grid, filled row by row
+   * @param position - 0-based index of the card
+   * @param board - Size of the grid
+   * @returns The position with its row and column
    */
-  private calculateScore(difficulty: CardDifficulty): number {
-    const scoreMap = {
-      easy: 10,
-      medium: 20,
-      hard: 30,
+  private getGridSlot(
+    position: number,
+    board: BoardSize,
+  ): Pick<Card, 'position' | 'row' | 'column'> {
+    return {
+      position,
+      row: Math.floor(position / board.columns),
+      column: position % board.columns,
     };
-    return scoreMap[difficulty];
   }
 
   /**
-   * Shuffles an array of cards
-   * @param cards - Array of cards to shuffle
-   * @returns Shuffled array of cards
+   * Generates a unique game ID
+   * @returns A 6-character ID
    */
-  private shuffleCards(cards: Card[]): Card[] {
-    const shuffled = [...cards];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-      // Update positions after shuffle
-      shuffled[i].position = i;
-      shuffled[j].position = j;
-    }
-    return shuffled;
+  private generateGameId(): string {
+    let gameId: string;
+    do {
+      gameId = this.randomService
+        .int(36 ** 6)
+        .toString(36)
+        .padStart(6, '0');
+    } while (this.games.has(gameId));
+
+    return gameId;
   }
 
   /**
-   * Handles timer expiration for a player's turn
+   * Ends the current turn because its time ran out
    */
-  handleTimerExpiration(
-    gameId: string,
-    playerId: string,
-  ): {
-    gameState: GameState;
-    action: 'timeUp';
-  } | null {
-    console.log('Handling timer expiration');
-    console.log('Game ID:', this.games);
-    const game = this.games.get(gameId);
-    if (!game) {
-      console.log('Game not found');
-      return null;
-    }
-
-    // Validate it's the player's turn
-    if (game.currentTurn !== playerId) {
-      console.log("Not the player's turn");
-      return null;
-    }
-    console.log('It is the player turn');
+  private expireTurn(game: GameState): void {
+    console.log(`Turn of ${game.currentTurn} timed out in ${game.gameId}`);
 
     // If there's a flipped card, flip it back
     if (game.firstFlippedCard) {
-      console.log('There is a flipped card');
       const firstCard = game.cards.find((c) => c.id === game.firstFlippedCard);
-      if (firstCard) {
-        console.log('Flipping back the card');
-        firstCard.isFlipped = false;
-      }
-      game.firstFlippedCard = null;
+      if (firstCard) firstCard.isFlipped = false;
+      game.firstFlippedCard = undefined;
     }
 
-    // Switch turns
-    this.switchTurns(game);
-
-    console.log('Game state updated :', game);
-
-    return {
-      gameState: game,
-      action: 'timeUp',
-    };
+    this.switchTurns(game, 'timeout');
   }
 }
@@ -0,0 +1,19 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { PersonalBestService } from './personal-best.service';
+import { PersonalBest } from './entities/personal-best.entity';
+
+/**
+ * REST endpoints for time-attack personal bests
+ */
+@Controller('personal-bests')
+export class PersonalBestController {
+  constructor(private readonly personalBestService: PersonalBestService) {}
+
+  /**
+   * Lists a player's best runs, one per board size
+   */
+  @Get(':nickname')
+  getBests(@Param('nickname') nickname: string): PersonalBest[] {
+    return this.personalBestService.getBests(nickname);
+  }
+}
@@ -0,0 +1,68 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { PersonalBestService } from './personal-best.service';
+import { PersonalBest } from './entities/personal-best.entity';
+
+describe('PersonalBestService', () => {
+  let bestsPath: string;
+  let personalBestService: PersonalBestService;
+
+  const run = (overrides: Partial<PersonalBest>): PersonalBest => ({
+    nickname: 'Alice',
+    numberOfPairs: 6,
+    score: 400,
+    elapsedMs: 60000,
+    flips: 20,
+    achievedAt: Date.now(),
+    ...overrides,
+  });
+
+  const createService = async () => {
+    const path = bestsPath;
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalBestService,
+        {
+          provide: ConfigService,
+          useValue: { get: () => path },
+        },
+      ],
+    }).compile();
+
+    personalBestService = app.get<PersonalBestService>(PersonalBestService);
+    await personalBestService.onModuleInit();
+  };
+
+  beforeEach(async () => {
+    bestsPath = join(mkdtempSync(join(tmpdir(), 'bests-')), 'bests.json');
+    await createService();
+  });
+
+  it('should keep the best run per nickname and board size', () => {
+    expect(personalBestService.record(run({})).isNew).toBe(true);
+    expect(personalBestService.record(run({ score: 300 })).isNew).toBe(false);
+    expect(
+      personalBestService.record(run({ nickname: 'alice', elapsedMs: 50000 }))
+        .isNew,
+    ).toBe(true);
+    personalBestService.record(run({ numberOfPairs: 8, score: 100 }));
+
+    const bests = personalBestService.getBests('ALICE');
+    expect(bests.map((best) => [best.numberOfPairs, best.elapsedMs])).toEqual([
+      [6, 50000],
+      [8, 60000],
+    ]);
+  });
+
+  it('should restore saved runs', async () => {
+    personalBestService.record(run({}));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await createService();
+
+    expect(personalBestService.getBests('alice')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,133 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { PersonalBest } from './entities/personal-best.entity';
+
+/**
+ * Service keeping each player's best time-attack runs
+ */
+@Injectable()
+export class PersonalBestService implements OnModuleInit {
+  // Keyed by `${nickname}:${numberOfPairs}`, nickname lowercased
+  private bests: Map<string, PersonalBest> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Restores saved records when the module starts
+   */
+  async onModuleInit(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * Records a finished run and saves it if it beats the player's best
+   * @param run - The finished run
+   * @returns The best run after recording and whether this run set it
+   */
+  record(run: PersonalBest): { best: PersonalBest; isNew: boolean } {
+    const key = this.key(run.nickname, run.numberOfPairs);
+    const current = this.bests.get(key);
+
+    if (current && !this.isBetter(run, current)) {
+      return { best: current, isNew: false };
+    }
+
+    this.bests.set(key, run);
+    this.save().catch((error) =>
+      console.error('Failed to save personal bests:', error),
+    );
+    return { best: run, isNew: true };
+  }
+
+  /**
+   * Lists a player's best runs, one per board size
+   * @param nickname - Nickname of the player
+   * @returns The runs, smallest board first
+   */
+  getBests(nickname: string): PersonalBest[] {
+    const prefix = `${nickname.trim().toLowerCase()}:`;
+    return [...this.bests.entries()]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([, best]) => best)
+      .sort((a, b) => a.numberOfPairs - b.numberOfPairs);
+  }
+
+  /**
+   * Compares two runs: higher score wins, then less time, then fewer flips
+   */
+  private isBetter(run: PersonalBest, current: PersonalBest): boolean {
+    if (run.score !== current.score) return run.score > current.score;
+    if (run.elapsedMs !== current.elapsedMs) {
+      return run.elapsedMs < current.elapsedMs;
+    }
+    return run.flips < current.flips;
+  }
+
+  /**
+   * Builds the map key of a player's record on a board size
+   */
+  private key(nickname: string, numberOfPairs: number): string {
+    return `${nickname.trim().toLowerCase()}:${numberOfPairs}`;
+  }
+
+  /**
+   * Restores records from disk
+   */
+  private async load(): Promise<void> {
+    const bestsPath = this.getBestsPath();
+
+    let raw: string;
+    try {
+      raw = await readFile(bestsPath, 'utf8');
+    } catch {
+      return; // Nothing saved yet
+    }
+
+    try {
+      const bests: PersonalBest[] = JSON.parse(raw).bests ?? [];
+      bests.forEach((best) =>
+        this.bests.set(this.key(best.nickname, best.numberOfPairs), best),
+      );
+      console.log(`Restored ${bests.length} personal bests from ${bestsPath}`);
+    } catch (error) {
+      console.error('Ignoring unreadable personal bests file:', error);
+    }
+  }
+
+  /**
+   * Saves all records to disk, one write at a time
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.writeBests());
+    return this.saving;
+  }
+
+  /**
+   * Writes all records to their file
+   */
+  private async writeBests(): Promise<void> {
+    const bestsPath = this.getBestsPath();
+    const bests = [...this.bests.values()];
+
+    await mkdir(dirname(bestsPath), { recursive: true });
+    await writeFile(`${bestsPath}.tmp`, JSON.stringify({ bests }, null, 2));
+    await rename(`${bestsPath}.tmp`, bestsPath);
+  }
+
+  /**
+   * Gets the absolute path of the personal bests file
+   */
+  private getBestsPath(): string {
+    return resolve(
+      this.configService.get<string>(
+        'PERSONAL_BESTS_PATH',
+        'data/personal-bests.json',
+      ),
+    );
+  }
+}
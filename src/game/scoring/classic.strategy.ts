@@ -0,0 +1,34 @@
+import { CardDifficulty } from '../entities/card.entity';
+import { ScoreBreakdown, ScoreItem } from '../entities/game.entity';
+import { ScoringContext, ScoringStrategy } from './scoring-strategy.interface';
+
+/**
+ * Points for matching a pair of each difficulty
+ */
+export const DIFFICULTY_POINTS: Record<CardDifficulty, number> = {
+  easy: 10,
+  medium: 20,
+  hard: 30,
+};
+
+/**
+ * Scores each match by the difficulty of the pair; misses cost nothing
+ */
+export class ClassicScoringStrategy implements ScoringStrategy {
+  scoreMatch(context: ScoringContext): ScoreBreakdown {
+    const { difficulty } = context.cards[0];
+    return this.breakdown([
+      { reason: `${difficulty} pair`, points: DIFFICULTY_POINTS[difficulty] },
+    ]);
+  }
+
+  /**
+   * Totals the items of a breakdown
+   */
+  protected breakdown(items: ScoreItem[]): ScoreBreakdown {
+    return {
+      items,
+      total: items.reduce((total, item) => total + item.points, 0),
+    };
+  }
+}
@@ -0,0 +1,28 @@
+import { ScoreBreakdown } from '../entities/game.entity';
+import { ClassicScoringStrategy } from './classic.strategy';
+import { ScoringContext } from './scoring-strategy.interface';
+
+/**
+ * Points lost for missing with a card that had been revealed before
+ */
+export const KNOWN_CARD_PENALTY_POINTS = 10;
+
+/**
+ * Classic scoring, but missing with a card everyone has already seen costs
+ * points
+ */
+export class KnownCardPenaltyScoringStrategy extends ClassicScoringStrategy {
+  scoreMiss(context: ScoringContext): ScoreBreakdown {
+    const knownCard = context.cards.some((card) => card.timesFlipped > 1);
+    return this.breakdown(
+      knownCard
+        ? [
+            {
+              reason: 'missed with a revealed card',
+              points: -KNOWN_CARD_PENALTY_POINTS,
+            },
+          ]
+        : [],
+    );
+  }
+}
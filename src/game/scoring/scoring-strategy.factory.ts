@@ -0,0 +1,26 @@
+import { ScoringRule } from '../entities/game.entity';
+import { ClassicScoringStrategy } from './classic.strategy';
+import { KnownCardPenaltyScoringStrategy } from './known-card-penalty.strategy';
+import { ScoringStrategy } from './scoring-strategy.interface';
+import { SpeedBonusScoringStrategy } from './speed-bonus.strategy';
+import { StreakScoringStrategy } from './streak.strategy';
+
+/**
+ * Builds the scoring strategy for a rule
+ * @param rule - Scoring rule picked for the game
+ * @returns The strategy instance
+ */
+export function createScoringStrategy(rule: ScoringRule): ScoringStrategy {
+  switch (rule) {
+    case 'classic':
+      return new ClassicScoringStrategy();
+    case 'streak':
+      return new StreakScoringStrategy();
+    case 'speed':
+      return new SpeedBonusScoringStrategy();
+    case 'penalty':
+      return new KnownCardPenaltyScoringStrategy();
+    default:
+      throw new Error(`Unknown scoring rule: ${rule}`);
+  }
+}
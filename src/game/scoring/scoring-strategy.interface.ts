@@ -0,0 +1,46 @@
+import { Card } from '../entities/card.entity';
+import { ScoreBreakdown } from '../entities/game.entity';
+
+/**
+ * What a scoring strategy knows about a matched or missed pair of cards
+ */
+export interface ScoringContext {
+  /**
+   * The two cards the player flipped, in flip order
+   */
+  cards: Card[];
+
+  /**
+   * Consecutive matches of the player, including this one if it is a match
+   */
+  streak: number;
+
+  /**
+   * Time limit of a turn in seconds
+   */
+  turnTimeLimit: number;
+
+  /**
+   * Time left on the turn timer, if the game has one
+   */
+  turnRemainingMs?: number;
+}
+
+/**
+ * A way of scoring the pairs players flip
+ */
+export interface ScoringStrategy {
+  /**
+   * Scores a matched pair
+   * @param context - The matched cards and the state of the turn
+   * @returns The points awarded and why
+   */
+  scoreMatch(context: ScoringContext): ScoreBreakdown;
+
+  /**
+   * Scores a missed pair. Misses score nothing unless this is implemented.
+   * @param context - The missed cards and the state of the turn
+   * @returns The points awarded (usually a penalty) and why
+   */
+  scoreMiss?(context: ScoringContext): ScoreBreakdown;
+}
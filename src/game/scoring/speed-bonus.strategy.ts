@@ -0,0 +1,27 @@
+import { ScoreBreakdown } from '../entities/game.entity';
+import { ClassicScoringStrategy } from './classic.strategy';
+import { ScoringContext } from './scoring-strategy.interface';
+
+/**
+ * Bonus for a match made the instant the turn started
+ */
+export const MAX_SPEED_BONUS_POINTS = 15;
+
+/**
+ * Classic scoring plus a bonus that shrinks as the turn timer runs down
+ */
+export class SpeedBonusScoringStrategy extends ClassicScoringStrategy {
+  scoreMatch(context: ScoringContext): ScoreBreakdown {
+    const { items } = super.scoreMatch(context);
+    const { turnRemainingMs, turnTimeLimit } = context;
+
+    // Games without a turn timer have nothing to be quick against
+    if (turnRemainingMs > 0 && turnTimeLimit > 0) {
+      const points = Math.round(
+        (MAX_SPEED_BONUS_POINTS * turnRemainingMs) / (turnTimeLimit * 1000),
+      );
+      if (points > 0) items.push({ reason: 'speed bonus', points });
+    }
+    return this.breakdown(items);
+  }
+}
@@ -0,0 +1,24 @@
+import { ScoreBreakdown } from '../entities/game.entity';
+import { ClassicScoringStrategy } from './classic.strategy';
+import { ScoringContext } from './scoring-strategy.interface';
+
+/**
+ * Extra points for each consecutive match after the first
+ */
+export const STREAK_BONUS_POINTS = 10;
+
+/**
+ * Classic scoring plus a growing bonus for consecutive matches
+ */
+export class StreakScoringStrategy extends ClassicScoringStrategy {
+  scoreMatch(context: ScoringContext): ScoreBreakdown {
+    const { items } = super.scoreMatch(context);
+    if (context.streak > 1) {
+      items.push({
+        reason: `${context.streak}x streak`,
+        points: STREAK_BONUS_POINTS * (context.streak - 1),
+      });
+    }
+    return this.breakdown(items);
+  }
+}
@@ -1,4 +1,6 @@
+import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 import * as dotenv from 'dotenv';
 
@@ -9,15 +11,21 @@ dotenv.config();
  * Bootstrap function to start the application
  */
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
 
   // Enable CORS
   app.enableCors({
     origin: process.env.CORS_ORIGIN || 'http://localhost:3000',
-    methods: ['GET', 'POST'],
+    methods: ['GET', 'POST', 'PUT', 'DELETE'],
     credentials: true,
   });
 
+  // Validate request bodies and queries against their DTOs
+  app.useGlobalPipes(new ValidationPipe({ whitelist: true, transform: true }));
+
+  // Accept CSV uploads for deck imports
+  app.useBodyParser('text', { type: 'text/csv', limit: '1mb' });
+
   await app.listen(process.env.PORT || 3001);
 }
 bootstrap();
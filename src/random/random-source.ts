@@ -0,0 +1,66 @@
+/**
+ * A source of random numbers, with the helpers the game needs on top
+ */
+export abstract class RandomSource {
+  /**
+   * Gets the next number of the sequence
+   * @returns A number from 0 (inclusive) to 1 (exclusive)
+   */
+  abstract next(): number;
+
+  /**
+   * Picks a whole number below a limit
+   * @param max - Exclusive upper limit
+   * @returns A whole number from 0 to max - 1
+   */
+  int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Picks one item of a list
+   * @param items - Items to pick from
+   * @returns One of the items, or undefined for an empty list
+   */
+  pick<T>(items: T[]): T | undefined {
+    return items[this.int(items.length)];
+  }
+
+  /**
+   * Shuffles a copy of a list using the Fisher-Yates algorithm
+   * @param items - Items to shuffle
+   * @returns The items in a new order
+   */
+  shuffle<T>(items: T[]): T[] {
+    const shuffled = [...items];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.int(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+    return shuffled;
+  }
+}
+
+/**
+ * A random sequence fully determined by its seed (mulberry32), so that the
+ * same seed always deals the same game
+ */
+export class SeededRandom extends RandomSource {
+  private state: number;
+
+  /**
+   * @param seed - 32-bit unsigned seed of the sequence
+   */
+  constructor(readonly seed: number) {
+    super();
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { RandomService } from './random.service';
+
+/**
+ * Module for the random numbers behind shuffles, codes and IDs
+ */
+@Module({
+  providers: [RandomService],
+  exports: [RandomService],
+})
+export class RandomModule {}
@@ -0,0 +1,49 @@
+import { randomInt } from 'crypto';
+import { RandomService } from './random.service';
+
+jest.mock('crypto', () => ({
+  ...jest.requireActual('crypto'),
+  randomInt: jest.fn(jest.requireActual('crypto').randomInt),
+}));
+
+describe('RandomService', () => {
+  const randomService = new RandomService();
+
+  it('should repeat the same sequence for the same seed', () => {
+    const first = randomService.forSeed(42);
+    const second = randomService.forSeed(42);
+    const sequence = Array.from({ length: 5 }, () => first.next());
+
+    expect(Array.from({ length: 5 }, () => second.next())).toEqual(sequence);
+    expect(randomService.forSeed(43).next()).not.toBe(sequence[0]);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('should shuffle a copy and keep every item', () => {
+    const items = [1, 2, 3, 4, 5, 6];
+
+    const shuffled = randomService.forSeed(7).shuffle(items);
+
+    expect(shuffled).toEqual(randomService.forSeed(7).shuffle(items));
+    expect([...shuffled].sort()).toEqual(items);
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('should only take 32-bit unsigned seeds', () => {
+    expect(() => randomService.forSeed(-1)).toThrow('32-bit');
+    expect(() => randomService.forSeed(1.5)).toThrow('32-bit');
+    expect(randomService.createSeed()).toBeLessThan(2 ** 32);
+  });
+
+  it('should draw seeds and shared numbers from crypto', () => {
+    (randomInt as jest.Mock).mockReturnValue(2 ** 31);
+
+    expect(randomService.createSeed()).toBe(2 ** 31);
+    expect(randomService.next()).toBe(0.5);
+    expect(randomService.int(36)).toBe(18);
+    expect(randomInt).toHaveBeenCalledWith(2 ** 32);
+  });
+});
@@ -0,0 +1,42 @@
+import { Injectable } from '@nestjs/common';
+import { randomInt } from 'crypto';
+import { RandomSource, SeededRandom } from './random-source';
+
+/**
+ * Largest seed plus one; seeds are 32-bit unsigned integers
+ */
+const SEED_LIMIT = 2 ** 32;
+
+/**
+ * Service handing out random numbers. Games draw from their own seeded
+ * sequence so they can be dealt again; everything else (room codes, game
+ * IDs, new seeds, bot pauses) comes from crypto, so that one leaked seed
+ * does not give away the rest.
+ */
+@Injectable()
+export class RandomService extends RandomSource {
+  next(): number {
+    return randomInt(SEED_LIMIT) / SEED_LIMIT;
+  }
+
+  /**
+   * Picks a seed for a new game
+   * @returns A 32-bit unsigned seed
+   */
+  createSeed(): number {
+    return randomInt(SEED_LIMIT);
+  }
+
+  /**
+   * Starts the random sequence of a seed
+   * @param seed - Seed of the sequence, usually stored on a game
+   * @returns A sequence that is the same every time for the same seed
+   * @throws Error if the seed is not a 32-bit unsigned integer
+   */
+  forSeed(seed: number): SeededRandom {
+    if (!Number.isInteger(seed) || seed < 0 || seed >= SEED_LIMIT) {
+      throw new Error('Seed must be a 32-bit unsigned integer');
+    }
+    return new SeededRandom(seed);
+  }
+}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Subject } from 'rxjs';
+import { RoomsGateway } from './rooms.gateway';
+import { RoomsService } from './rooms.service';
+import { GameService } from '../game/game.service';
+import { RandomService } from '../random/random.service';
+import { CustomDeckService } from '../deck/custom-deck.service';
+import { SessionService } from '../session/session.service';
+import { PlayerSession } from '../session/entities/player-session.entity';
+
+describe('RoomsGateway', () => {
+  let roomsService: RoomsService;
+  let sessionService: SessionService;
+  const sessionsPath = join(
+    mkdtempSync(join(tmpdir(), 'sessions-')),
+    'sessions.json',
+  );
+  let emitted: { to: string; name: string; data: any }[];
+  let joined: { playerId: string; roomCode: string }[];
+
+  // Opens a socket for a new player, or again for a known one
+  const connect = (session?: PlayerSession): PlayerSession => {
+    const resolved = sessionService.resolve(session?.sessionToken);
+    sessionService.connect(resolved.session, resolved.resumed);
+    return resolved.session;
+  };
+
+  const messages = () =>
+    emitted
+      .filter(({ name }) => name === 'room:updated')
+      .map(({ data }) => data.message);
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    emitted = [];
+    joined = [];
+
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomsGateway,
+        RoomsService,
+        RandomService,
+        SessionService,
+        { provide: CustomDeckService, useValue: {} },
+        { provide: GameService, useValue: { events$: new Subject() } },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, fallback?: unknown) =>
+              key === 'SESSIONS_PATH' ? sessionsPath : fallback,
+          },
+        },
+      ],
+    }).compile();
+
+    roomsService = app.get(RoomsService);
+    sessionService = app.get(SessionService);
+
+    const gateway = app.get(RoomsGateway);
+    gateway.server = {
+      to: (to: string) => ({
+        emit: (name: string, payload: { data: unknown }) =>
+          emitted.push({ to, name, data: payload.data }),
+      }),
+      in: (playerId: string) => ({
+        socketsJoin: (roomCode: string) => joined.push({ playerId, roomCode }),
+        socketsLeave: () => undefined,
+      }),
+    } as any;
+    gateway.afterInit();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hold a lobby seat for a player who comes back in time', () => {
+    const alice = connect();
+    const bob = connect();
+    const room = roomsService.createRoom(alice.playerId, 'Alice');
+    roomsService.joinRoom(room.roomCode, bob.playerId, 'Bob');
+
+    sessionService.disconnect(bob.sessionToken);
+    jest.advanceTimersByTime(29999);
+    connect(bob);
+    jest.advanceTimersByTime(60000);
+
+    expect(room.players[bob.playerId]).toBeDefined();
+    expect(joined).toEqual([
+      { playerId: bob.playerId, roomCode: room.roomCode },
+    ]);
+    expect(emitted).toContainEqual({
+      to: bob.playerId,
+      name: 'room:resync',
+      data: room,
+    });
+    expect(messages()).toEqual(['Bob disconnected', 'Bob reconnected']);
+  });
+
+  it('should give up the seat once the grace period is over', () => {
+    const alice = connect();
+    const bob = connect();
+    const room = roomsService.createRoom(alice.playerId, 'Alice');
+    roomsService.joinRoom(room.roomCode, bob.playerId, 'Bob');
+
+    sessionService.disconnect(bob.sessionToken);
+    jest.advanceTimersByTime(30000);
+
+    expect(room.players[bob.playerId]).toBeUndefined();
+    expect(messages()).toEqual(['Bob disconnected', 'Bob left the room']);
+  });
+
+  it('should not announce a second tab as a reconnection', () => {
+    const alice = connect();
+    roomsService.createRoom(alice.playerId, 'Alice');
+
+    connect(alice);
+
+    expect(emitted.map(({ name }) => name)).toEqual(['room:resync']);
+  });
+});
@@ -1,13 +1,20 @@
 import {
+  OnGatewayInit,
   WebSocketGateway,
   WebSocketServer,
   SubscribeMessage,
   ConnectedSocket,
   MessageBody,
 } from '@nestjs/websockets';
+import { ConfigService } from '@nestjs/config';
 import { Server, Socket } from 'socket.io';
 import { RoomsService } from './rooms.service';
+import { GameRoom } from '../common/interfaces/room.interface';
 import { GameService } from '../game/game.service';
+import { DeckValidationError } from '../deck/deck-validation.error';
+import { BotLevel, GameState, TeamId } from '../game/entities/game.entity';
+import { SessionService } from '../session/session.service';
+import { getPlayerId } from '../session/player-id';
 
 /**
  * Gateway for handling real-time room-related WebSocket events
@@ -17,14 +24,64 @@ import { GameService } from '../game/game.service';
     origin: '*', // In production, replace with actual frontend URL
   },
 })
-export class RoomsGateway {
+export class RoomsGateway implements OnGatewayInit {
   @WebSocketServer() server: Server;
 
+  // Players who went offline in the lobby, keyed by room code and player ID
+  private leaveTimers: Map<string, NodeJS.Timeout> = new Map();
+
+  // Rooms whose game is being dealt, so a second start cannot slip in
+  private startingRooms: Set<string> = new Set();
+
   constructor(
     private readonly roomsService: RoomsService,
     private readonly gameService: GameService,
+    private readonly sessionService: SessionService,
+    private readonly configService: ConfigService,
   ) {}
 
+  /**
+   * Follows players going offline and coming back, and puts rooms back into
+   * the lobby state when their game ends
+   */
+  afterInit(): void {
+    this.sessionService.events$.subscribe((event) => {
+      if (event.type === 'connected') {
+        this.handlePlayerOnline(event.playerId, event.reconnected);
+      } else {
+        this.handlePlayerOffline(event.playerId);
+      }
+    });
+
+    this.gameService.events$.subscribe((event) => {
+      if (event.type !== 'gameOver') return;
+
+      const { gameId, roomCode, forfeitedBy } = event.gameState;
+
+      // Only the game the room is playing can end it
+      if (this.roomsService.getRoom(roomCode)?.gameId !== gameId) return;
+
+      let room = this.roomsService.endGame(roomCode, this.getWinner(gameId));
+
+      // A player who never came back is taken out of the room too
+      if (room && event.reason === 'disconnect') {
+        room = this.roomsService.leaveRoom(roomCode, forfeitedBy);
+      }
+
+      if (room) {
+        this.server.to(roomCode).emit('room:updated', {
+          event: 'room:updated',
+          data: {
+            ...room,
+            message: room.series
+              ? this.describeSeries(room)
+              : 'Game over! Vote for a rematch to play again.',
+          },
+        });
+      }
+    });
+  }
+
   /**
    * Handles room creation events
    * @param client - Socket client instance
@@ -39,17 +96,28 @@ export class RoomsGateway {
       data: {
         nickname: string;
         settings?: any;
+        maxPlayers?: number;
       };
     },
   ): void {
     console.log('Creating room with payload:', payload); // Debug log
-    console.log('Client ID:', client.id); // Debug log
+    console.log('Player ID:', getPlayerId(client)); // Debug log
 
-    const room = this.roomsService.createRoom(
-      client.id,
-      payload.data.nickname,
-      payload.data.settings,
-    );
+    let room: GameRoom;
+    try {
+      room = this.roomsService.createRoom(
+        getPlayerId(client),
+        payload.data.nickname,
+        payload.data.settings,
+        payload.data.maxPlayers,
+      );
+    } catch (error) {
+      client.emit('room:error', {
+        event: 'room:error',
+        data: { message: error.message },
+      });
+      return;
+    }
 
     // Join the socket to the room
     client.join(room.roomCode);
@@ -89,7 +157,7 @@ export class RoomsGateway {
     console.log('Joining room with payload:', payload); // Debug log
     const room = this.roomsService.joinRoom(
       payload.data.roomCode,
-      client.id,
+      getPlayerId(client),
       payload.data.nickname,
     );
 
@@ -103,12 +171,12 @@ export class RoomsGateway {
         data: room,
       });
 
-      // Notify all players that both players are now in the room
-      if (Object.keys(room.players).length === 2) {
+      // Notify all players once every seat is taken
+      if (Object.keys(room.players).length === room.maxPlayers) {
         this.server.to(room.roomCode).emit('room:full', {
           event: 'room:full',
           data: {
-            message: 'Both players have joined! Get ready to start the game.',
+            message: 'All players have joined! Get ready to start the game.',
             room: room,
           },
         });
@@ -146,19 +214,7 @@ export class RoomsGateway {
       };
     },
   ): void {
-    const room = this.roomsService.leaveRoom(payload.data.roomCode, client.id);
-
-    client.leave(payload.data.roomCode);
-    if (room) {
-      // Notify remaining player that opponent left
-      this.server.to(payload.data.roomCode).emit('room:updated', {
-        event: 'room:updated',
-        data: {
-          ...room,
-          message: 'Opponent left the game',
-        },
-      });
-    }
+    this.leaveRoom(getPlayerId(client), payload.data.roomCode);
   }
 
   /**
@@ -181,7 +237,7 @@ export class RoomsGateway {
     console.log('Player ready status update:', payload);
     const room = this.roomsService.setPlayerReady(
       payload.data.roomCode,
-      client.id,
+      getPlayerId(client),
       payload.data.isReady,
     );
 
@@ -192,14 +248,12 @@ export class RoomsGateway {
         data: room,
       });
 
-      // Check if both players are ready
+      // Check if all players are ready
       const allPlayersReady = Object.values(room.players).every(
         (player) => player.isReady,
       );
 
-      if (allPlayersReady && Object.keys(room.players).length === 2) {
-        room.status = 'playing';
-
+      if (allPlayersReady && !this.getStartProblem(room)) {
         // Emit game start event with initial game state
         this.server.to(room.roomCode).emit('game:start', {
           event: 'game:start',
@@ -208,7 +262,8 @@ export class RoomsGateway {
             room: room,
             // Add any initial game state here
             gameState: {
-              currentTurn: room.hostId, // Host goes first
+              // First player to join goes first
+              currentTurn: this.roomsService.getPlayersInJoinOrder(room)[0].id,
               turnNumber: 1,
               scores: Object.fromEntries(
                 Object.keys(room.players).map((playerId) => [playerId, 0]),
@@ -221,22 +276,407 @@ export class RoomsGateway {
   }
 
   /**
-   * Handles client disconnection
+   * Handles a player picking a team in a team room
+   * @param client - Socket client instance
+   * @param payload - The picked team
+   */
+  @SubscribeMessage('room:pickTeam')
+  handlePickTeam(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        roomCode: string;
+        team: TeamId;
+      };
+    },
+  ): void {
+    try {
+      const room = this.roomsService.setPlayerTeam(
+        payload.data.roomCode,
+        getPlayerId(client),
+        payload.data.team,
+      );
+
+      this.server.to(room.roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: room,
+      });
+    } catch (error) {
+      client.emit('room:error', {
+        event: 'room:error',
+        data: { message: error.message },
+      });
+    }
+  }
+
+  /**
+   * Handles the host adding a bot player to the room
    * @param client - Socket client instance
+   * @param payload - Memory skill of the bot
    */
-  handleDisconnect(@ConnectedSocket() client: Socket): void {
-    // Find and leave all rooms the client was in
-    this.server.sockets.adapter.rooms.forEach((_, roomCode) => {
-      const room = this.roomsService.getRoom(roomCode);
-      if (room && room.players[client.id]) {
-        this.handleRoomLeave(client, {
-          event: 'room:leave',
-          data: { roomCode },
+  @SubscribeMessage('room:addBot')
+  handleAddBot(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        roomCode: string;
+        level?: BotLevel;
+      };
+    },
+  ): void {
+    try {
+      const room = this.roomsService.addBot(
+        payload.data.roomCode,
+        getPlayerId(client),
+        payload.data.level,
+      );
+
+      this.server.to(room.roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: room,
+      });
+    } catch (error) {
+      client.emit('room:error', {
+        event: 'room:error',
+        data: { message: error.message },
+      });
+    }
+  }
+
+  /**
+   * Handles the host removing a bot player from the room
+   * @param client - Socket client instance
+   * @param payload - ID of the bot
+   */
+  @SubscribeMessage('room:removeBot')
+  handleRemoveBot(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        roomCode: string;
+        botId: string;
+      };
+    },
+  ): void {
+    try {
+      const room = this.roomsService.removeBot(
+        payload.data.roomCode,
+        getPlayerId(client),
+        payload.data.botId,
+      );
+
+      this.server.to(room.roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: room,
+      });
+    } catch (error) {
+      client.emit('room:error', {
+        event: 'room:error',
+        data: { message: error.message },
+      });
+    }
+  }
+
+  /**
+   * Handles the host attaching a custom deck to a private room. Sending
+   * neither pairs nor a deck ID detaches the current deck.
+   * @param client - Socket client instance
+   * @param payload - Inline pairs or the ID of a saved deck
+   */
+  @SubscribeMessage('room:setDeck')
+  handleSetDeck(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        roomCode: string;
+        deckId?: string;
+        name?: string;
+        pairs?: unknown[];
+      };
+    },
+  ): void {
+    const { roomCode, deckId, name, pairs } = payload.data;
+
+    try {
+      const room = this.roomsService.setCustomDeck(
+        roomCode,
+        getPlayerId(client),
+        {
+          deckId,
+          name,
+          pairs,
+        },
+      );
+
+      this.server.to(room.roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: room,
+      });
+    } catch (error) {
+      client.emit('room:error', {
+        event: 'room:error',
+        data: {
+          message:
+            error instanceof DeckValidationError
+              ? 'Invalid custom deck'
+              : error.message,
+          problems:
+            error instanceof DeckValidationError ? error.problems : undefined,
+        },
+      });
+    }
+  }
+
+  /**
+   * Handles a player's rematch vote after a game. The rematch starts in the
+   * same room with a fresh deck once every player has voted for it.
+   * @param client - Socket client instance
+   * @param payload - Whether the player wants a rematch
+   */
+  @SubscribeMessage('room:rematch')
+  async handleRematch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        roomCode: string;
+        accept?: boolean;
+      };
+    },
+  ): Promise<void> {
+    let room: GameRoom;
+    try {
+      room = this.roomsService.voteRematch(
+        payload.data.roomCode,
+        getPlayerId(client),
+        payload.data.accept ?? true,
+      );
+    } catch (error) {
+      client.emit('room:error', {
+        event: 'room:error',
+        data: { message: error.message },
+      });
+      return;
+    }
+
+    this.server.to(room.roomCode).emit('room:updated', {
+      event: 'room:updated',
+      data: room,
+    });
+
+    if (!this.roomsService.isRematchAgreed(room)) return;
+
+    // Back to the lobby first, so late votes can't start a second game
+    this.roomsService.reopenRoom(room.roomCode);
+    const startProblem = this.getStartProblem(room);
+    if (startProblem) {
+      this.server.to(room.roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: { ...room, message: startProblem },
+      });
+      return;
+    }
+
+    try {
+      await this.startRoomGame(room);
+    } catch (error) {
+      console.error('Error starting rematch:', error);
+      this.server.to(room.roomCode).emit('game:error', {
+        event: 'game:error',
+        data: {
+          message: 'Failed to start the rematch',
+        },
+      });
+    }
+  }
+
+  /**
+   * Keeps the lobby seats of a player who went offline for a grace period
+   * (DISCONNECT_GRACE_MS). Their games are held by the game gateway.
+   * @param playerId - ID of the player
+   */
+  private handlePlayerOffline(playerId: string): void {
+    this.roomsService.getRoomsOfPlayer(playerId).forEach((room) => {
+      if (room.status !== 'playing') {
+        const key = `${room.roomCode}:${playerId}`;
+        const graceMs = Number(
+          this.configService.get('DISCONNECT_GRACE_MS', 30000),
+        );
+
+        clearTimeout(this.leaveTimers.get(key));
+        this.leaveTimers.set(
+          key,
+          setTimeout(() => {
+            this.leaveTimers.delete(key);
+            this.leaveRoom(playerId, room.roomCode);
+          }, graceMs),
+        );
+      }
+
+      this.server.to(room.roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: {
+          ...room,
+          message: `${room.players[playerId].nickname} disconnected`,
+        },
+      });
+    });
+  }
+
+  /**
+   * Puts a player's new socket back in their rooms and sends it the state of
+   * each. A player coming back within the grace period keeps their seat.
+   * @param playerId - ID of the player
+   * @param reconnected - Whether the player had gone offline
+   */
+  private handlePlayerOnline(playerId: string, reconnected: boolean): void {
+    this.roomsService.getRoomsOfPlayer(playerId).forEach((room) => {
+      const key = `${room.roomCode}:${playerId}`;
+      clearTimeout(this.leaveTimers.get(key));
+      this.leaveTimers.delete(key);
+
+      this.server.in(playerId).socketsJoin(room.roomCode);
+      this.server.to(playerId).emit('room:resync', {
+        event: 'room:resync',
+        data: room,
+      });
+
+      if (reconnected) {
+        this.server.to(room.roomCode).emit('room:updated', {
+          event: 'room:updated',
+          data: {
+            ...room,
+            message: `${room.players[playerId].nickname} reconnected`,
+          },
         });
       }
     });
   }
 
+  /**
+   * Takes a player out of a room, forfeiting the game in progress if any
+   * @param playerId - ID of the player
+   * @param roomCode - Code of the room
+   */
+  private leaveRoom(playerId: string, roomCode: string): void {
+    const current = this.roomsService.getRoom(roomCode);
+    const nickname = current?.players[playerId]?.nickname;
+
+    // Leaving mid-game forfeits the game
+    if (current?.status === 'playing' && current.gameId) {
+      this.gameService.forfeitGame(current.gameId, playerId);
+    }
+
+    clearTimeout(this.leaveTimers.get(`${roomCode}:${playerId}`));
+    this.leaveTimers.delete(`${roomCode}:${playerId}`);
+
+    const room = this.roomsService.leaveRoom(roomCode, playerId);
+
+    // Every socket of the player leaves, not only the one that asked
+    this.server.in(playerId).socketsLeave(roomCode);
+    if (room) {
+      // Notify remaining players who left
+      this.server.to(roomCode).emit('room:updated', {
+        event: 'room:updated',
+        data: {
+          ...room,
+          message: `${nickname ?? 'A player'} left the room`,
+        },
+      });
+    }
+  }
+
+  /**
+   * Starts a new game with a fresh deck for the players of a room
+   * @param room - The game room
+   * @throws Error if the game cannot be created
+   */
+  private async startRoomGame(room: GameRoom): Promise<void> {
+    // Convert players object to array format needed by GameService, in
+    // join order so turns rotate the same way
+    const players = this.roomsService
+      .getPlayersInJoinOrder(room)
+      .map((player) => ({
+        id: player.id,
+        nickname: player.nickname,
+        team: player.team,
+        botLevel: player.botLevel,
+      }));
+
+    this.startingRooms.add(room.roomCode);
+    let gameState: GameState;
+    try {
+      gameState = await this.gameService.createGame(
+        room.roomCode,
+        players,
+        this.roomsService.getGameConfig(room),
+      );
+    } finally {
+      this.startingRooms.delete(room.roomCode);
+    }
+
+    // Players are sent game:started by the game gateway
+    this.roomsService.startGame(room.roomCode, gameState.gameId);
+    this.server.to(room.roomCode).emit('room:updated', {
+      event: 'room:updated',
+      data: room,
+    });
+  }
+
+  /**
+   * Checks whether a room's game can start, counting a game that is still
+   * being dealt as started
+   * @param room - The game room
+   * @returns Why the game cannot start, or null if it can
+   */
+  private getStartProblem(room: GameRoom): string | null {
+    if (this.startingRooms.has(room.roomCode)) {
+      return 'The game is already starting';
+    }
+    return this.roomsService.getStartProblem(room);
+  }
+
+  /**
+   * Gets who won a finished game: a team ID in team games, a player ID
+   * otherwise, or null on a tie
+   */
+  private getWinner(gameId: string): string | null {
+    const result = this.gameService.getWinners(gameId);
+    if (!result || result.isTie || result.winners.length === 0) return null;
+
+    return result.winningTeams?.[0].id ?? result.winners[0].id;
+  }
+
+  /**
+   * Describes the series standings of a room
+   */
+  private describeSeries(room: GameRoom): string {
+    const { series } = room;
+    const nameOf = (id: string) =>
+      room.players[id]?.nickname ??
+      (room.settings.mode === 'team'
+        ? `Team ${id.charAt(0).toUpperCase()}${id.slice(1)}`
+        : 'A former player');
+    const standings = Object.entries(series.wins)
+      .sort(([, a], [, b]) => b - a)
+      .map(([id, wins]) => `${nameOf(id)} ${wins}`)
+      .join(', ');
+
+    if (series.winner) {
+      return `${nameOf(series.winner)} wins the best-of-${series.bestOf} series! (${standings})`;
+    }
+    return `Game ${series.gamesPlayed} of ${series.bestOf} done${standings ? `: ${standings}` : ''}. Vote for a rematch to play the next game.`;
+  }
+
   /**
    * Handles game start event from the host
    */
@@ -256,7 +696,7 @@ export class RoomsGateway {
     const room = this.roomsService.getRoom(payload.data.roomCode);
 
     // Verify room exists and client is host
-    if (!room || room.hostId !== client.id) {
+    if (!room || room.hostId !== getPlayerId(client)) {
       client.emit('game:error', {
         event: 'game:error',
         data: {
@@ -266,44 +706,20 @@ export class RoomsGateway {
       return;
     }
 
-    // Convert players object to array format needed by GameService
-    const players = Object.entries(room.players).map(([id, player]) => ({
-      id,
-      nickname: player.nickname,
-    }));
-
-    // Verify we have exactly 2 players
-    if (players.length !== 2) {
+    // Verify we have enough players, on both teams in team rooms
+    const startProblem = this.getStartProblem(room);
+    if (startProblem) {
       client.emit('game:error', {
         event: 'game:error',
         data: {
-          message: 'Need exactly 2 players to start the game',
+          message: startProblem,
         },
       });
       return;
     }
 
     try {
-      // Initialize game
-      const gameState = await this.gameService.createGame(
-        payload.data.roomCode,
-        players,
-        {
-          numberOfPairs: 6, // 12 cards total
-          turnTimeLimit: 30,
-          difficultyDistribution: {
-            easy: 2,
-            medium: 2,
-            hard: 2,
-          },
-        },
-      );
-
-      // Emit game started event to all players in room
-      this.server.to(payload.data.roomCode).emit('game:started', {
-        event: 'game:started',
-        data: gameState,
-      });
+      await this.startRoomGame(room);
     } catch (error) {
       console.error('Error starting game:', error);
       client.emit('game:error', {
@@ -2,12 +2,15 @@ import { Module } from '@nestjs/common';
 import { RoomsService } from './rooms.service';
 import { RoomsGateway } from './rooms.gateway';
 import { GameModule } from '../game/game.module';
+import { DeckModule } from '../deck/deck.module';
+import { RandomModule } from '../random/random.module';
+import { SessionModule } from '../session/session.module';
 
 /**
  * Module for handling game room operations
  */
 @Module({
-  imports: [GameModule],
+  imports: [GameModule, DeckModule, RandomModule, SessionModule],
   providers: [RoomsService, RoomsGateway],
   exports: [RoomsService],
 })
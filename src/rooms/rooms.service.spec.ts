@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RoomsService } from './rooms.service';
+import { RandomService } from '../random/random.service';
+import { CustomDeckService } from '../deck/custom-deck.service';
+import { GameRoom, GameSettings } from '../common/interfaces/room.interface';
+
+describe('RoomsService', () => {
+  let roomsService: RoomsService;
+
+  const createRoom = (bestOf?: number): GameRoom => {
+    const room = roomsService.createRoom('alice', 'Alice', { bestOf }, 2);
+    roomsService.joinRoom(room.roomCode, 'bob', 'Bob');
+    return room;
+  };
+
+  beforeEach(async () => {
+    const app: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomsService,
+        RandomService,
+        { provide: CustomDeckService, useValue: {} },
+      ],
+    }).compile();
+
+    roomsService = app.get<RoomsService>(RoomsService);
+  });
+
+  describe('joinRoom', () => {
+    it('should keep the seat of a player who joins again', () => {
+      const room = createRoom();
+      roomsService.setPlayerReady(room.roomCode, 'bob', true);
+
+      expect(roomsService.joinRoom(room.roomCode, 'bob', 'Bob')).toBe(room);
+      expect(room.players.bob.isReady).toBe(true);
+      expect(Object.keys(room.players)).toEqual(['alice', 'bob']);
+    });
+  });
+
+  describe('getStartProblem', () => {
+    it('should only start games from the lobby', () => {
+      const room = createRoom();
+      expect(roomsService.getStartProblem(room)).toBeNull();
+
+      roomsService.startGame(room.roomCode, 'game1');
+      expect(roomsService.getStartProblem(room)).toBe(
+        'The game has already started',
+      );
+
+      roomsService.endGame(room.roomCode, 'alice');
+      expect(roomsService.getStartProblem(room)).toBe(
+        'Vote for a rematch to play again',
+      );
+
+      roomsService.reopenRoom(room.roomCode);
+      expect(roomsService.getStartProblem(room)).toBeNull();
+    });
+  });
+
+  describe('rematch', () => {
+    it('should only take votes once the game is over', () => {
+      const room = createRoom();
+      roomsService.startGame(room.roomCode, 'game1');
+
+      expect(() =>
+        roomsService.voteRematch(room.roomCode, 'alice', true),
+      ).toThrow('after a game');
+
+      roomsService.endGame(room.roomCode, 'alice');
+      expect(room.status).toBe('finished');
+      roomsService.voteRematch(room.roomCode, 'alice', true);
+      expect(roomsService.isRematchAgreed(room)).toBe(false);
+
+      roomsService.voteRematch(room.roomCode, 'bob', true);
+      expect(roomsService.isRematchAgreed(room)).toBe(true);
+
+      roomsService.reopenRoom(room.roomCode);
+      expect(room.status).toBe('waiting');
+      expect(room.rematchVotes).toEqual([]);
+    });
+
+    it('should count bots as agreeing', () => {
+      const room = roomsService.createRoom('alice', 'Alice', {}, 2);
+      roomsService.addBot(room.roomCode, 'alice', 'easy');
+      roomsService.startGame(room.roomCode, 'game1');
+      roomsService.endGame(room.roomCode, null);
+
+      roomsService.voteRematch(room.roomCode, 'alice', true);
+
+      expect(roomsService.isRematchAgreed(room)).toBe(true);
+    });
+  });
+
+  describe('board settings', () => {
+    it('should fit the default six pairs on the smallest board', () => {
+      const { settings } = roomsService.createRoom('alice', 'Alice');
+
+      expect(settings.board).toEqual({ columns: 4, rows: 3 });
+      expect(settings.numberOfPairs).toBe(6);
+      expect(settings.difficultyDistribution).toEqual({
+        easy: 2,
+        medium: 2,
+        hard: 2,
+      });
+      expect(settings.turnTimeLimit).toBe(30);
+    });
+
+    it('should fill a picked board and pass it on to the game', () => {
+      const room = roomsService.createRoom('alice', 'Alice', {
+        board: { columns: 4, rows: 4 },
+        actionCards: true,
+        turnTimeLimit: 45,
+      });
+
+      // Two cells are left for the three action cards
+      expect(room.settings.numberOfPairs).toBe(6);
+      expect(roomsService.getGameConfig(room)).toMatchObject({
+        numberOfPairs: 6,
+        turnTimeLimit: 45,
+        board: { columns: 4, rows: 4 },
+        difficultyDistribution: { easy: 2, medium: 2, hard: 2 },
+      });
+    });
+
+    it('should reject settings outside the limits or at odds', () => {
+      const create = (settings: Partial<GameSettings>) => () =>
+        roomsService.createRoom('alice', 'Alice', settings);
+
+      expect(create({ board: { columns: 3, rows: 3 } })).toThrow(
+        'Unsupported board size 3x3',
+      );
+      expect(
+        create({ board: { columns: 4, rows: 3 }, numberOfPairs: 8 }),
+      ).toThrow('16 cards do not fit on a 4x3 board');
+      expect(
+        create({
+          numberOfPairs: 8,
+          difficultyDistribution: { easy: 4, medium: 2, hard: 1 },
+        }),
+      ).toThrow('must add up to the 8 pairs');
+      expect(create({ turnTimeLimit: 5 })).toThrow('between 10 and 120');
+    });
+  });
+
+  describe('series', () => {
+    it('should be decided by a majority of wins, not counting ties', () => {
+      const room = createRoom(3);
+
+      roomsService.endGame(room.roomCode, 'alice');
+      roomsService.endGame(room.roomCode, null);
+      expect(room.series).toEqual({
+        bestOf: 3,
+        gamesPlayed: 2,
+        wins: { alice: 1 },
+      });
+
+      roomsService.endGame(room.roomCode, 'alice');
+      expect(room.series.winner).toBe('alice');
+    });
+
+    it('should go to the leader when ties use up the games', () => {
+      const room = createRoom(3);
+
+      roomsService.endGame(room.roomCode, 'bob');
+      roomsService.endGame(room.roomCode, null);
+      roomsService.endGame(room.roomCode, null);
+
+      expect(room.series.winner).toBe('bob');
+    });
+
+    it('should start over once the series is decided', () => {
+      const room = createRoom(3);
+      roomsService.endGame(room.roomCode, 'bob');
+      roomsService.endGame(room.roomCode, 'bob');
+
+      roomsService.startGame(room.roomCode, 'game3');
+
+      expect(room.series).toEqual({ bestOf: 3, gamesPlayed: 0, wins: {} });
+    });
+
+    it('should leave single games without standings', () => {
+      expect(createRoom(4).series).toBeUndefined();
+    });
+  });
+});
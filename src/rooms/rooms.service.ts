@@ -3,7 +3,68 @@ import {
   GameRoom,
   Player,
   GameSettings,
+  SeriesStandings,
 } from '../common/interfaces/room.interface';
+import { CustomDeckService } from '../deck/custom-deck.service';
+import { RandomService } from '../random/random.service';
+import {
+  BugCategory,
+  BugSolutionPair,
+} from '../deck/entities/bug-solution-pair.entity';
+import { CustomDeckSource } from '../deck/entities/custom-deck.entity';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BotLevel,
+  GameConfig,
+  GameMode,
+  ScoringRule,
+  TeamId,
+} from '../game/entities/game.entity';
+import { ACTION_CARD_KINDS } from '../game/game.service';
+import {
+  resolveBoardSettings,
+  resolveTurnTimeLimit,
+} from '../game/board-settings';
+
+/**
+ * Smallest number of players a game can start with
+ */
+export const MIN_PLAYERS = 2;
+
+/**
+ * Largest number of players a room can hold
+ */
+export const MAX_PLAYERS = 4;
+
+/**
+ * Modes a room can be set to
+ */
+const GAME_MODES: GameMode[] = ['classic', 'solo', 'race', 'team'];
+
+/**
+ * Scoring rules a room can be set to
+ */
+const SCORING_RULES: ScoringRule[] = ['classic', 'streak', 'speed', 'penalty'];
+
+/**
+ * Series lengths a room can be set to
+ */
+const SERIES_LENGTHS = [1, 3, 5, 7];
+
+/**
+ * Memory skills a bot can be added with
+ */
+export const BOT_LEVELS: BotLevel[] = ['easy', 'medium', 'hard'];
+
+/**
+ * Teams players can pick in team rooms
+ */
+export const TEAMS: TeamId[] = ['red', 'blue'];
+
+/**
+ * Largest number of players on one team
+ */
+export const TEAM_SIZE = 2;
 
 /**
  * Service responsible for managing game rooms
@@ -11,22 +72,46 @@ import {
 @Injectable()
 export class RoomsService {
   private rooms: Map<string, GameRoom> = new Map();
+  // Kept apart from the rooms so the pairs are never broadcast to players
+  private customDecks: Map<string, BugSolutionPair[]> = new Map();
+
+  constructor(
+    private readonly customDeckService: CustomDeckService,
+    private readonly randomService: RandomService,
+  ) {}
 
   /**
    * Creates a new game room
    * @param hostId - ID of the player creating the room
    * @param nickname - Nickname of the host player
    * @param settings - Optional room settings
+   * @param maxPlayers - Room capacity, kept between MIN_PLAYERS and
+   * MAX_PLAYERS (always 1 in solo rooms and two full teams in team rooms)
    * @returns The created game room
+   * @throws Error if the board or turn settings are out of range
    */
   createRoom(
     hostId: string,
     nickname: string,
     settings?: Partial<GameSettings>,
+    maxPlayers?: number,
   ): GameRoom {
     console.log('Creating room with hostId:', hostId);
     console.log('Nickname:', nickname);
     console.log('Settings:', settings);
+    const mode = this.normalizeMode(settings?.mode);
+    // Race boards are private copies, so action cards are left out
+    const actionCards = mode !== 'race' && settings?.actionCards === true;
+    const boardSettings = resolveBoardSettings(
+      {
+        board: settings?.board,
+        numberOfPairs: settings?.numberOfPairs,
+        difficultyDistribution: settings?.difficultyDistribution,
+      },
+      actionCards ? ACTION_CARD_KINDS.length : 0,
+    );
+    const turnTimeLimit = resolveTurnTimeLimit(settings?.turnTimeLimit);
+
     const roomCode = this.generateRoomCode();
     const host: Player = {
       id: hostId,
@@ -34,6 +119,7 @@ export class RoomsService {
       isReady: false,
       isHost: true,
       joinedAt: Date.now(),
+      team: mode === 'team' ? TEAMS[0] : undefined,
     };
 
     const room: GameRoom = {
@@ -41,22 +127,39 @@ export class RoomsService {
       hostId,
       players: { [hostId]: host },
       status: 'waiting',
-      maxPlayers: 2,
+      rematchVotes: [],
+      maxPlayers:
+        mode === 'solo'
+          ? 1
+          : mode === 'team'
+            ? TEAMS.length * TEAM_SIZE
+            : this.normalizeMaxPlayers(maxPlayers),
       createdAt: Date.now(),
       settings: {
-        turnTimeLimit: 30,
         allowSpectators: false,
         isPrivate: false,
         ...settings,
+        ...boardSettings,
+        turnTimeLimit,
+        mode,
+        scoring: this.normalizeScoring(settings?.scoring),
+        actionCards,
+        bestOf: this.normalizeBestOf(settings?.bestOf),
+        categories: this.normalizeCategories(settings?.categories),
+        tags: this.normalizeTags(settings?.tags),
+        customDeck: undefined,
       },
     };
 
+    room.series = this.createSeries(room.settings.bestOf);
+
     this.rooms.set(roomCode, room);
     return room;
   }
 
   /**
-   * Adds a player to a room
+   * Adds a player to a room. A player who is already in the room keeps their
+   * seat, so rejoining from another tab or after a refresh is harmless.
    * @param roomCode - Code of the room to join
    * @param playerId - ID of the joining player
    * @param nickname - Nickname of the joining player
@@ -69,6 +172,7 @@ export class RoomsService {
   ): GameRoom | null {
     const room = this.rooms.get(roomCode);
     if (!room) return null;
+    if (room.players[playerId]) return room;
 
     if (Object.keys(room.players).length >= room.maxPlayers) {
       return null;
@@ -86,6 +190,8 @@ export class RoomsService {
       isReady: false,
       isHost: false,
       joinedAt: Date.now(),
+      team:
+        room.settings.mode === 'team' ? this.getSmallestTeam(room) : undefined,
     };
 
     room.players[playerId] = player;
@@ -103,16 +209,21 @@ export class RoomsService {
     if (!room) return null;
 
     delete room.players[playerId];
+    room.rematchVotes = room.rematchVotes.filter((id) => id !== playerId);
 
-    // If room is empty, delete it
-    if (Object.keys(room.players).length === 0) {
+    // If only bots are left, delete the room
+    const humans = Object.values(room.players).filter(
+      (player) => !player.isBot,
+    );
+    if (humans.length === 0) {
       this.rooms.delete(roomCode);
+      this.customDecks.delete(roomCode);
       return null;
     }
 
     // If host left, assign new host
     if (playerId === room.hostId) {
-      const newHost = Object.values(room.players)[0];
+      const newHost = humans[0];
       room.hostId = newHost.id;
       room.players[newHost.id].isHost = true;
     }
@@ -120,6 +231,69 @@ export class RoomsService {
     return room;
   }
 
+  /**
+   * Adds a bot player to a room
+   * @param roomCode - Code of the room
+   * @param playerId - ID of the player adding the bot
+   * @param level - Memory skill of the bot, medium if unknown
+   * @returns The updated game room
+   * @throws Error if the room cannot take a bot from this player
+   */
+  addBot(roomCode: string, playerId: string, level?: BotLevel): GameRoom {
+    const room = this.rooms.get(roomCode);
+    if (!room) throw new Error('Room not found');
+    if (room.hostId !== playerId) {
+      throw new Error('Only the host can add bots');
+    }
+    if (room.status !== 'waiting') {
+      throw new Error('Bots cannot join once the game has started');
+    }
+    if (Object.keys(room.players).length >= room.maxPlayers) {
+      throw new Error('Room is full');
+    }
+
+    const botLevel = BOT_LEVELS.includes(level) ? level : 'medium';
+    const bot: Player = {
+      id: `bot_${uuidv4()}`,
+      nickname: this.getBotNickname(room, botLevel),
+      isReady: true, // Bots are always ready
+      isHost: false,
+      joinedAt: Date.now(),
+      team:
+        room.settings.mode === 'team' ? this.getSmallestTeam(room) : undefined,
+      isBot: true,
+      botLevel,
+    };
+
+    room.players[bot.id] = bot;
+    return room;
+  }
+
+  /**
+   * Removes a bot player from a room
+   * @param roomCode - Code of the room
+   * @param playerId - ID of the player removing the bot
+   * @param botId - ID of the bot
+   * @returns The updated game room
+   * @throws Error if the bot cannot be removed by this player
+   */
+  removeBot(roomCode: string, playerId: string, botId: string): GameRoom {
+    const room = this.rooms.get(roomCode);
+    if (!room) throw new Error('Room not found');
+    if (room.hostId !== playerId) {
+      throw new Error('Only the host can remove bots');
+    }
+    if (room.status !== 'waiting') {
+      throw new Error('Bots cannot leave once the game has started');
+    }
+    if (!room.players[botId]?.isBot) {
+      throw new Error('Bot not found');
+    }
+
+    delete room.players[botId];
+    return room;
+  }
+
   /**
    * Retrieves a room by its code
    * @param roomCode - Code of the room to retrieve
@@ -148,6 +322,388 @@ export class RoomsService {
     return room;
   }
 
+  /**
+   * Moves a player to another team in a team room
+   * @param roomCode - Code of the room
+   * @param playerId - ID of the player
+   * @param team - Team the player picked
+   * @returns The updated game room
+   * @throws Error if the player cannot join the team
+   */
+  setPlayerTeam(roomCode: string, playerId: string, team: TeamId): GameRoom {
+    const room = this.rooms.get(roomCode);
+    if (!room || !room.players[playerId]) throw new Error('Room not found');
+    if (room.settings.mode !== 'team') {
+      throw new Error('Teams are only available in team rooms');
+    }
+    if (room.status !== 'waiting') {
+      throw new Error('Teams cannot change once the game has started');
+    }
+    if (!TEAMS.includes(team)) {
+      throw new Error(`Unknown team ${team}`);
+    }
+
+    const player = room.players[playerId];
+    if (player.team !== team && this.getTeamSize(room, team) >= TEAM_SIZE) {
+      throw new Error(`Team ${team} is full`);
+    }
+
+    player.team = team;
+    return room;
+  }
+
+  /**
+   * Marks a room as playing a game
+   * @param roomCode - Code of the room
+   * @param gameId - ID of the game that started
+   * @returns The updated game room or null if room not found
+   */
+  startGame(roomCode: string, gameId: string): GameRoom | null {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    // A decided series makes way for a new one
+    if (room.series?.winner) {
+      room.series = this.createSeries(room.settings.bestOf);
+    }
+
+    room.status = 'playing';
+    room.gameId = gameId;
+    room.rematchVotes = [];
+    return room;
+  }
+
+  /**
+   * Marks a room's game as over so its players can leave or vote for a
+   * rematch, and counts the result towards the series
+   * @param roomCode - Code of the room
+   * @param winner - Player or team ID that won the game, or null on a tie
+   * @returns The updated game room or null if room not found
+   */
+  endGame(roomCode: string, winner: string | null = null): GameRoom | null {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    room.status = 'finished';
+    room.rematchVotes = [];
+    Object.values(room.players).forEach((player) => {
+      player.isReady = !!player.isBot;
+    });
+
+    const { series } = room;
+    if (series && !series.winner) {
+      series.gamesPlayed++;
+      if (winner) {
+        series.wins[winner] = (series.wins[winner] ?? 0) + 1;
+        if (series.wins[winner] > series.bestOf / 2) {
+          series.winner = winner;
+        }
+      }
+
+      // Ties can use up the games without anyone reaching a majority
+      if (!series.winner && series.gamesPlayed >= series.bestOf) {
+        const [leader, runnerUp] = Object.entries(series.wins).sort(
+          ([, a], [, b]) => b - a,
+        );
+        if (leader && leader[1] > (runnerUp?.[1] ?? 0)) {
+          series.winner = leader[0];
+        }
+      }
+    }
+    return room;
+  }
+
+  /**
+   * Records a player's vote for a rematch after a game ended
+   * @param roomCode - Code of the room
+   * @param playerId - ID of the voting player
+   * @param accept - Whether the player wants a rematch
+   * @returns The updated game room
+   * @throws Error if the room is not between games
+   */
+  voteRematch(roomCode: string, playerId: string, accept: boolean): GameRoom {
+    const room = this.rooms.get(roomCode);
+    if (!room || !room.players[playerId]) throw new Error('Room not found');
+    if (room.status !== 'finished') {
+      throw new Error('A rematch can only be voted for after a game');
+    }
+
+    room.rematchVotes = room.rematchVotes.filter((id) => id !== playerId);
+    if (accept) room.rematchVotes.push(playerId);
+    return room;
+  }
+
+  /**
+   * Puts a finished room back in the lobby, e.g. while its rematch is set up
+   * @param roomCode - Code of the room
+   * @returns The updated game room or null if room not found
+   */
+  reopenRoom(roomCode: string): GameRoom | null {
+    const room = this.rooms.get(roomCode);
+    if (!room) return null;
+
+    room.status = 'waiting';
+    room.rematchVotes = [];
+    return room;
+  }
+
+  /**
+   * Checks whether every human player in a room voted for a rematch. Bots
+   * always agree.
+   * @param room - The game room
+   * @returns Whether the rematch can start
+   */
+  isRematchAgreed(room: GameRoom): boolean {
+    return Object.values(room.players).every(
+      (player) => player.isBot || room.rematchVotes.includes(player.id),
+    );
+  }
+
+  /**
+   * Finds every room a player is in
+   * @param playerId - ID of the player
+   * @returns The rooms containing the player
+   */
+  getRoomsOfPlayer(playerId: string): GameRoom[] {
+    return [...this.rooms.values()].filter((room) => room.players[playerId]);
+  }
+
+  /**
+   * Attaches a custom deck to a private room, or detaches it when the source
+   * has neither pairs nor a deck ID
+   * @param roomCode - Code of the room
+   * @param playerId - ID of the player attaching the deck
+   * @param source - Inline pairs or the ID of a saved deck
+   * @returns The updated game room
+   * @throws Error if the room cannot take a deck from this player
+   * @throws DeckValidationError if the inline pairs are invalid
+   */
+  setCustomDeck(
+    roomCode: string,
+    playerId: string,
+    source: CustomDeckSource,
+  ): GameRoom {
+    const room = this.rooms.get(roomCode);
+    if (!room) throw new Error('Room not found');
+    if (room.hostId !== playerId) {
+      throw new Error('Only the host can change the deck');
+    }
+    if (!room.settings.isPrivate) {
+      throw new Error('Custom decks are only available in private rooms');
+    }
+    if (room.status !== 'waiting') {
+      throw new Error('The deck cannot change once the game has started');
+    }
+
+    if (!source.deckId && !source.pairs) {
+      this.customDecks.delete(roomCode);
+      room.settings.customDeck = undefined;
+      return room;
+    }
+
+    const { pairs, summary } = this.customDeckService.resolve(source);
+    this.customDecks.set(roomCode, pairs);
+    room.settings.customDeck = summary;
+    return room;
+  }
+
+  /**
+   * Gets the pairs of the custom deck attached to a room
+   * @param roomCode - Code of the room
+   * @returns The pairs or null if the room uses the regular deck
+   */
+  getCustomDeckPairs(roomCode: string): BugSolutionPair[] | null {
+    return this.customDecks.get(roomCode) || null;
+  }
+
+  /**
+   * Gets how many players a room needs before its game can start
+   * @param room - The game room
+   * @returns 1 for solo rooms, MIN_PLAYERS otherwise
+   */
+  getMinPlayers(room: GameRoom): number {
+    return room.settings.mode === 'solo' ? 1 : MIN_PLAYERS;
+  }
+
+  /**
+   * Checks whether a room's game can start
+   * @param room - The game room
+   * @returns Why the game cannot start, or null if it can
+   */
+  getStartProblem(room: GameRoom): string | null {
+    // A finished room only plays again through a rematch vote
+    if (room.status === 'playing') return 'The game has already started';
+    if (room.status !== 'waiting') return 'Vote for a rematch to play again';
+
+    const players = Object.values(room.players);
+    const minPlayers = this.getMinPlayers(room);
+    if (players.length < minPlayers) {
+      return `Need at least ${minPlayers} players to start the game`;
+    }
+
+    if (
+      room.settings.mode === 'team' &&
+      TEAMS.some((team) => this.getTeamSize(room, team) === 0)
+    ) {
+      return 'Both teams need at least one player';
+    }
+
+    const { customDeck, numberOfPairs } = room.settings;
+    if (customDeck && customDeck.pairCount < numberOfPairs) {
+      return `The custom deck has ${customDeck.pairCount} pairs but the board needs ${numberOfPairs}`;
+    }
+
+    return null;
+  }
+
+  /**
+   * Builds the configuration of a new game in a room
+   * @param room - The game room
+   * @returns Configuration for GameService.createGame
+   */
+  getGameConfig(room: GameRoom): GameConfig {
+    return {
+      mode: room.settings.mode,
+      scoring: room.settings.scoring,
+      numberOfPairs: room.settings.numberOfPairs,
+      turnTimeLimit: room.settings.turnTimeLimit,
+      difficultyDistribution: { ...room.settings.difficultyDistribution },
+      board: { ...room.settings.board },
+      deckFilter: {
+        categories: room.settings.categories,
+        tags: room.settings.tags,
+      },
+      customPairs: this.getCustomDeckPairs(room.roomCode),
+      actionCards: room.settings.actionCards,
+    };
+  }
+
+  /**
+   * Gets the players of a room in the order they joined
+   * @param room - The game room
+   * @returns Players sorted by join time
+   */
+  getPlayersInJoinOrder(room: GameRoom): Player[] {
+    return Object.values(room.players).sort((a, b) => a.joinedAt - b.joinedAt);
+  }
+
+  /**
+   * Names a bot after its level, numbering bots of the same level
+   */
+  private getBotNickname(room: GameRoom, level: BotLevel): string {
+    const base = `${level.charAt(0).toUpperCase()}${level.slice(1)} Bot`;
+    const taken = new Set(
+      Object.values(room.players).map((player) => player.nickname),
+    );
+
+    let nickname = base;
+    for (let n = 2; taken.has(nickname); n++) {
+      nickname = `${base} ${n}`;
+    }
+    return nickname;
+  }
+
+  /**
+   * Counts the players on a team
+   */
+  private getTeamSize(room: GameRoom, team: TeamId): number {
+    return Object.values(room.players).filter((player) => player.team === team)
+      .length;
+  }
+
+  /**
+   * Picks the team with the fewest players, so new players balance the teams
+   */
+  private getSmallestTeam(room: GameRoom): TeamId {
+    return TEAMS.reduce((smallest, team) =>
+      this.getTeamSize(room, team) < this.getTeamSize(room, smallest)
+        ? team
+        : smallest,
+    );
+  }
+
+  /**
+   * Falls back to classic for unknown modes
+   * @param mode - Mode picked by the host
+   * @returns A known game mode
+   */
+  private normalizeMode(mode?: unknown): GameMode {
+    return GAME_MODES.includes(mode as GameMode)
+      ? (mode as GameMode)
+      : 'classic';
+  }
+
+  /**
+   * Starts fresh series standings
+   * @param bestOf - Number of games in the series
+   * @returns The standings, or undefined for single games
+   */
+  private createSeries(bestOf: number): SeriesStandings | undefined {
+    return bestOf > 1 ? { bestOf, gamesPlayed: 0, wins: {} } : undefined;
+  }
+
+  /**
+   * Falls back to single games for unsupported series lengths
+   * @param bestOf - Series length picked by the host
+   * @returns A supported series length
+   */
+  private normalizeBestOf(bestOf?: unknown): number {
+    const requested = Number(bestOf);
+    return SERIES_LENGTHS.includes(requested) ? requested : 1;
+  }
+
+  /**
+   * Falls back to classic for unknown scoring rules
+   * @param scoring - Scoring rule picked by the host
+   * @returns A known scoring rule
+   */
+  private normalizeScoring(scoring?: unknown): ScoringRule {
+    return SCORING_RULES.includes(scoring as ScoringRule)
+      ? (scoring as ScoringRule)
+      : 'classic';
+  }
+
+  /**
+   * Keeps a requested room capacity within the supported range
+   * @param maxPlayers - Capacity picked by the host
+   * @returns A whole number between MIN_PLAYERS and MAX_PLAYERS
+   */
+  private normalizeMaxPlayers(maxPlayers?: unknown): number {
+    const requested = Math.floor(Number(maxPlayers));
+    if (!Number.isFinite(requested)) return MIN_PLAYERS;
+    return Math.min(MAX_PLAYERS, Math.max(MIN_PLAYERS, requested));
+  }
+
+  /**
+   * Keeps only known bug categories, ignoring case
+   * @param categories - Categories picked by the host
+   * @returns Valid, distinct categories
+   */
+  private normalizeCategories(categories?: unknown): BugCategory[] {
+    if (!Array.isArray(categories)) return [];
+
+    const known = Object.values(BugCategory);
+    const valid = categories
+      .map((category) => String(category).toUpperCase() as BugCategory)
+      .filter((category) => known.includes(category));
+    return [...new Set(valid)];
+  }
+
+  /**
+   * Trims and lowercases tags, dropping empty ones
+   * @param tags - Tags picked by the host
+   * @returns Distinct tags
+   */
+  private normalizeTags(tags?: unknown): string[] {
+    if (!Array.isArray(tags)) return [];
+
+    const valid = tags
+      .filter((tag) => typeof tag === 'string')
+      .map((tag) => tag.trim().toLowerCase())
+      .filter((tag) => tag.length > 0);
+    return [...new Set(valid)];
+  }
+
   /**
    * Generates a unique room code
    * @returns A 6-character room code
@@ -157,7 +713,7 @@ export class RoomsService {
     let code: string;
     do {
       code = Array.from({ length: 6 }, () =>
-        chars.charAt(Math.floor(Math.random() * chars.length)),
+        chars.charAt(this.randomService.int(chars.length)),
       ).join('');
     } while (this.rooms.has(code));
 
@@ -0,0 +1,50 @@
+/**
+ * An anonymous player's session. The token is kept by the browser and sent
+ * at the socket handshake, so the player keeps the same ID across page
+ * refreshes and dropped connections.
+ */
+export interface PlayerSession {
+  /**
+   * Stable ID of the player (UUID v4), used for rooms and games
+   */
+  playerId: string;
+
+  /**
+   * Secret the client presents to resume the session
+   */
+  sessionToken: string;
+
+  /**
+   * Number of sockets currently connected for the player
+   */
+  connections: number;
+
+  /**
+   * Timestamp when the session was created
+   */
+  createdAt: number;
+
+  /**
+   * Timestamp when a socket of the player last connected or disconnected
+   */
+  lastSeenAt: number;
+}
+
+/**
+ * A player coming online or going offline, published by SessionService
+ */
+export type SessionEvent =
+  | {
+      /** A socket of the player connected */
+      type: 'connected';
+      playerId: string;
+      /** Whether the socket resumed an existing session */
+      resumed: boolean;
+      /** Whether the player had gone offline and came back */
+      reconnected: boolean;
+    }
+  | {
+      /** The last socket of the player disconnected */
+      type: 'disconnected';
+      playerId: string;
+    };
@@ -0,0 +1,11 @@
+import { Socket } from 'socket.io';
+
+/**
+ * Gets the stable ID of the player behind a socket, as resolved from their
+ * session token when the socket connected
+ * @param client - Socket client instance
+ * @returns The player ID
+ */
+export function getPlayerId(client: Socket): string {
+  return client.data?.playerId ?? client.id;
+}
@@ -0,0 +1,57 @@
+import {
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WebSocketGateway,
+} from '@nestjs/websockets';
+import { Socket } from 'socket.io';
+import { SessionService } from './session.service';
+
+/**
+ * Gateway giving every socket the stable identity of its player
+ */
+@WebSocketGateway({
+  cors: {
+    origin: '*', // In production, replace with actual frontend URL
+  },
+})
+export class SessionGateway
+  implements OnGatewayConnection, OnGatewayDisconnect
+{
+  constructor(private readonly sessionService: SessionService) {}
+
+  /**
+   * Resolves the session token sent in the handshake (`auth.sessionToken`)
+   * and puts the socket in a room named after the player ID, so events sent
+   * to a player reach every socket they have open
+   * @param client - Socket client instance
+   */
+  handleConnection(client: Socket): void {
+    const { session, resumed } = this.sessionService.resolve(
+      client.handshake.auth?.sessionToken,
+    );
+    client.data.playerId = session.playerId;
+    client.data.sessionToken = session.sessionToken;
+    client.join(session.playerId);
+
+    // The client stores the token to resume the session later
+    client.emit('session:ready', {
+      event: 'session:ready',
+      data: {
+        playerId: session.playerId,
+        sessionToken: session.sessionToken,
+        resumed,
+      },
+    });
+    this.sessionService.connect(session, resumed);
+  }
+
+  /**
+   * Handles client disconnection
+   * @param client - Socket client instance
+   */
+  handleDisconnect(client: Socket): void {
+    if (client.data.sessionToken) {
+      this.sessionService.disconnect(client.data.sessionToken);
+    }
+  }
+}
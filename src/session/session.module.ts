@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SessionService } from './session.service';
+import { SessionGateway } from './session.gateway';
+
+/**
+ * Module for anonymous player sessions
+ */
+@Module({
+  providers: [SessionService, SessionGateway],
+  exports: [SessionService],
+})
+export class SessionModule {}
@@ -0,0 +1,106 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { SessionService } from './session.service';
+import { SessionEvent } from './entities/player-session.entity';
+
+describe('SessionService', () => {
+  let app: TestingModule;
+  let sessionsPath: string;
+  let sessionService: SessionService;
+  let events: SessionEvent[];
+
+  const createService = async () => {
+    const path = sessionsPath;
+    app = await Test.createTestingModule({
+      providers: [
+        SessionService,
+        {
+          provide: ConfigService,
+          useValue: {
+            get: (key: string, defaultValue?: unknown) =>
+              ({ SESSION_TTL_MS: 60000, SESSIONS_PATH: path })[key] ??
+              defaultValue,
+          },
+        },
+      ],
+    }).compile();
+    await app.init();
+
+    sessionService = app.get<SessionService>(SessionService);
+    events = [];
+    sessionService.events$.subscribe((event) => events.push(event));
+  };
+
+  beforeEach(async () => {
+    sessionsPath = join(
+      mkdtempSync(join(tmpdir(), 'sessions-')),
+      'sessions.json',
+    );
+    await createService();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.useRealTimers();
+  });
+
+  it('should keep the player ID of a known token', () => {
+    const { session } = sessionService.resolve();
+
+    const resumed = sessionService.resolve(session.sessionToken);
+    const unknown = sessionService.resolve('not-a-token');
+
+    expect(resumed).toEqual({ session, resumed: true });
+    expect(unknown.resumed).toBe(false);
+    expect(unknown.session.playerId).not.toBe(session.playerId);
+  });
+
+  it('should only report a player offline once their last socket closes', () => {
+    const { session } = sessionService.resolve();
+    const { playerId } = session;
+    sessionService.connect(session, false);
+    sessionService.connect(session, true);
+
+    sessionService.disconnect(session.sessionToken);
+    sessionService.disconnect(session.sessionToken);
+    sessionService.disconnect(session.sessionToken);
+    sessionService.connect(session, true);
+
+    expect(events).toEqual([
+      { type: 'connected', playerId, resumed: false, reconnected: false },
+      { type: 'connected', playerId, resumed: true, reconnected: false },
+      { type: 'disconnected', playerId },
+      { type: 'connected', playerId, resumed: true, reconnected: true },
+    ]);
+  });
+
+  it('should keep player IDs across a restart', async () => {
+    const { session } = sessionService.resolve();
+    sessionService.connect(session, false);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await app.close();
+    await createService();
+
+    const resumed = sessionService.resolve(session.sessionToken);
+    expect(resumed.resumed).toBe(true);
+    expect(resumed.session).toMatchObject({
+      playerId: session.playerId,
+      connections: 0,
+    });
+  });
+
+  it('should forget sessions offline for longer than the TTL', () => {
+    jest.useFakeTimers();
+    const { session } = sessionService.resolve();
+    sessionService.connect(session, false);
+    sessionService.disconnect(session.sessionToken);
+
+    jest.advanceTimersByTime(60001);
+
+    expect(sessionService.resolve(session.sessionToken).resumed).toBe(false);
+  });
+});
@@ -0,0 +1,190 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { Observable, Subject } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { PlayerSession, SessionEvent } from './entities/player-session.entity';
+
+/**
+ * Service issuing player sessions and tracking which players are online.
+ * Sessions are saved, so player IDs survive a restart.
+ */
+@Injectable()
+export class SessionService implements OnModuleInit, OnModuleDestroy {
+  // Keyed by session token
+  private sessions: Map<string, PlayerSession> = new Map();
+  private saving: Promise<void> = Promise.resolve();
+  private readonly events = new Subject<SessionEvent>();
+
+  /**
+   * Players coming online and going offline, in order
+   */
+  readonly events$: Observable<SessionEvent> = this.events.asObservable();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * Restores saved sessions when the module starts
+   */
+  async onModuleInit(): Promise<void> {
+    await this.load();
+  }
+
+  /**
+   * Stops publishing events when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.events.complete();
+  }
+
+  /**
+   * Resolves the token a socket presented at the handshake. Unknown or
+   * expired tokens get a new session, with a new player ID.
+   * @param sessionToken - Token sent by the client, if any
+   * @returns The session and whether it already existed
+   */
+  resolve(sessionToken?: unknown): {
+    session: PlayerSession;
+    resumed: boolean;
+  } {
+    this.pruneExpired();
+
+    const existing =
+      typeof sessionToken === 'string' && this.sessions.get(sessionToken);
+    if (existing) {
+      return { session: existing, resumed: true };
+    }
+
+    const session: PlayerSession = {
+      playerId: uuidv4(),
+      sessionToken: randomBytes(32).toString('hex'),
+      connections: 0,
+      createdAt: Date.now(),
+      lastSeenAt: Date.now(),
+    };
+    this.sessions.set(session.sessionToken, session);
+    this.persist();
+    return { session, resumed: false };
+  }
+
+  /**
+   * Counts a new socket of a player
+   * @param session - Session the socket resolved to
+   * @param resumed - Whether the socket resumed an existing session
+   */
+  connect(session: PlayerSession, resumed: boolean): void {
+    const reconnected = resumed && session.connections === 0;
+    session.connections++;
+    session.lastSeenAt = Date.now();
+    this.events.next({
+      type: 'connected',
+      playerId: session.playerId,
+      resumed,
+      reconnected,
+    });
+  }
+
+  /**
+   * Counts a closed socket of a player. The player goes offline once their
+   * last socket is gone (a player may have several tabs open).
+   * @param sessionToken - Token of the socket's session
+   */
+  disconnect(sessionToken: string): void {
+    const session = this.sessions.get(sessionToken);
+    if (!session || session.connections === 0) return;
+
+    session.connections--;
+    session.lastSeenAt = Date.now();
+    if (session.connections === 0) {
+      this.persist();
+      this.events.next({ type: 'disconnected', playerId: session.playerId });
+    }
+  }
+
+  /**
+   * Forgets sessions that have been offline for longer than SESSION_TTL_MS
+   * (a day by default)
+   */
+  private pruneExpired(): void {
+    const ttlMs = Number(
+      this.configService.get('SESSION_TTL_MS', 24 * 60 * 60 * 1000),
+    );
+    const cutoff = Date.now() - ttlMs;
+
+    this.sessions.forEach((session, token) => {
+      if (session.connections === 0 && session.lastSeenAt < cutoff) {
+        this.sessions.delete(token);
+      }
+    });
+  }
+
+  /**
+   * Saves in the background, logging failures
+   */
+  private persist(): void {
+    this.save().catch((error) =>
+      console.error('Failed to save sessions:', error),
+    );
+  }
+
+  /**
+   * Restores sessions from disk. Sockets do not survive a restart, so every
+   * player starts offline.
+   */
+  private async load(): Promise<void> {
+    const sessionsPath = this.getSessionsPath();
+
+    let raw: string;
+    try {
+      raw = await readFile(sessionsPath, 'utf8');
+    } catch {
+      return; // Nothing saved yet
+    }
+
+    try {
+      const sessions: PlayerSession[] = JSON.parse(raw).sessions ?? [];
+      sessions.forEach((session) =>
+        this.sessions.set(session.sessionToken, { ...session, connections: 0 }),
+      );
+      console.log(`Restored ${sessions.length} sessions from ${sessionsPath}`);
+    } catch (error) {
+      console.error('Ignoring unreadable sessions file:', error);
+    }
+  }
+
+  /**
+   * Saves all sessions to disk, one write at a time
+   */
+  private save(): Promise<void> {
+    this.saving = this.saving
+      .catch(() => undefined)
+      .then(() => this.writeSessions());
+    return this.saving;
+  }
+
+  /**
+   * Writes all sessions to their file
+   */
+  private async writeSessions(): Promise<void> {
+    const sessionsPath = this.getSessionsPath();
+    const sessions = [...this.sessions.values()];
+
+    await mkdir(dirname(sessionsPath), { recursive: true });
+    await writeFile(
+      `${sessionsPath}.tmp`,
+      JSON.stringify({ sessions }, null, 2),
+    );
+    await rename(`${sessionsPath}.tmp`, sessionsPath);
+  }
+
+  /**
+   * Gets the absolute path of the sessions file
+   */
+  private getSessionsPath(): string {
+    return resolve(
+      this.configService.get<string>('SESSIONS_PATH', 'data/sessions.json'),
+    );
+  }
+}
@@ -1,18 +1,32 @@
 import * as dotenv from 'dotenv';
+import { ConfigService } from '@nestjs/config';
 import { AiService } from './ai/ai.service';
+import { aiConfig } from './ai/ai.config';
+import { createLlmProvider } from './ai/providers/llm-provider.factory';
+import { DeckService } from './deck/deck.service';
+import { RandomService } from './random/random.service';
 
 // Load environment variables
 dotenv.config();
 
 async function testAiService() {
-  const aiService = new AiService();
+  const deckService = new DeckService(new ConfigService(), new RandomService());
 
   try {
+    await deckService.load();
+    const config = aiConfig();
+    const aiService = new AiService(createLlmProvider(config), deckService);
+
     console.log('Testing AI Service...');
-    console.log('API Key present:', !!process.env.OPENAI_API_KEY);
+    console.log('Provider:', config.provider, 'Model:', config.model);
+    console.log('API Key present:', !!config.apiKey);
     console.log('Generating 3 bug-solution pairs...');
 
-    const pairs = await aiService.generateBugSolutionPairs(3);
+    const { pairs } = await aiService.generateBugSolutionPairs({
+      easy: 1,
+      medium: 1,
+      hard: 1,
+    });
 
     console.log('\nGenerated Pairs:');
     console.log(JSON.stringify(pairs, null, 2));
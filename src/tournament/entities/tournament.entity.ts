@@ -0,0 +1,187 @@
+/**
+ * How a tournament is played: knocked out after one loss, or after two
+ */
+export type TournamentFormat = 'single' | 'double';
+
+/**
+ * Stage of a tournament
+ */
+export type TournamentStatus = 'registration' | 'running' | 'finished';
+
+/**
+ * Part of the bracket a match belongs to. The grand final, where the
+ * winners bracket champion meets the losers bracket champion, only exists
+ * in double elimination.
+ */
+export type BracketSide = 'winners' | 'losers' | 'grandFinal';
+
+/**
+ * Stage of a match: waiting for its players, being played, or decided
+ */
+export type TournamentMatchStatus = 'pending' | 'playing' | 'finished';
+
+/**
+ * A player registered for a tournament
+ */
+export interface TournamentParticipant {
+  /**
+   * ID of the player
+   */
+  id: string;
+
+  /**
+   * Nickname of the player, unique within the tournament
+   */
+  nickname: string;
+
+  /**
+   * Seed of the player, 1 being the top seed (registration order)
+   */
+  seed: number;
+
+  /**
+   * Whether the player forfeited the rest of the tournament
+   */
+  withdrawn: boolean;
+}
+
+/**
+ * Where the winner or loser of a match plays next
+ */
+export interface MatchSlotRef {
+  /**
+   * ID of the next match
+   */
+  matchId: string;
+
+  /**
+   * Slot of the player in that match (0 or 1)
+   */
+  slot: number;
+}
+
+/**
+ * A match of the bracket
+ */
+export interface TournamentMatch {
+  /**
+   * Unique identifier for the match within the tournament
+   */
+  id: string;
+
+  /**
+   * Part of the bracket the match belongs to
+   */
+  side: BracketSide;
+
+  /**
+   * Round within its side, starting at 1
+   */
+  round: number;
+
+  /**
+   * Stage of the match
+   */
+  status: TournamentMatchStatus;
+
+  /**
+   * IDs of the two players; null for a slot that is still open or that
+   * nobody will fill (a bye)
+   */
+  playerIds: [string | null, string | null];
+
+  /**
+   * Number of slots still waiting on an earlier match
+   */
+  pendingSlots: number;
+
+  /**
+   * ID of the player who won, null when nobody played the match
+   */
+  winnerId?: string | null;
+
+  /**
+   * Whether the match was decided without being played
+   */
+  isBye?: boolean;
+
+  /**
+   * Code of the room the match is played in
+   */
+  roomCode?: string;
+
+  /**
+   * ID of the game being played, or last played, for the match
+   */
+  gameId?: string;
+
+  /**
+   * Where the winner plays next; the final has none
+   */
+  winnerTo?: MatchSlotRef;
+
+  /**
+   * Where the loser plays next (double elimination winners bracket only)
+   */
+  loserTo?: MatchSlotRef;
+}
+
+/**
+ * A tournament and its bracket
+ */
+export interface Tournament {
+  /**
+   * Unique identifier for the tournament
+   */
+  id: string;
+
+  /**
+   * Display name of the tournament
+   */
+  name: string;
+
+  /**
+   * How the tournament is played
+   */
+  format: TournamentFormat;
+
+  /**
+   * Stage of the tournament
+   */
+  status: TournamentStatus;
+
+  /**
+   * Registered players, by seed
+   */
+  participants: TournamentParticipant[];
+
+  /**
+   * Matches of the bracket, empty until the tournament starts
+   */
+  matches: TournamentMatch[];
+
+  /**
+   * ID of the winner, once the tournament is over
+   */
+  championId?: string;
+
+  /**
+   * Timestamp when the tournament was created
+   */
+  createdAt: number;
+}
+
+/**
+ * Something that happened in a tournament, published by TournamentService
+ * for the gateway to relay
+ */
+export type TournamentEvent =
+  | {
+      type: 'updated';
+      tournament: Tournament;
+    }
+  | {
+      type: 'matchReady';
+      tournament: Tournament;
+      match: TournamentMatch;
+    };
@@ -0,0 +1,76 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  NotFoundException,
+  Param,
+  Post,
+} from '@nestjs/common';
+import { TournamentService } from './tournament.service';
+import { Tournament, TournamentFormat } from './entities/tournament.entity';
+
+/**
+ * REST endpoints for organizing tournaments and viewing their brackets
+ */
+@Controller('tournaments')
+export class TournamentController {
+  constructor(private readonly tournamentService: TournamentService) {}
+
+  /**
+   * Opens a tournament for registration
+   */
+  @Post()
+  createTournament(
+    @Body() body: { name?: string; format?: TournamentFormat },
+  ): Tournament {
+    try {
+      return this.tournamentService.createTournament(
+        body?.name,
+        body?.format ?? 'single',
+      );
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  /**
+   * Lists tournaments, newest first
+   */
+  @Get()
+  listTournaments(): Tournament[] {
+    return this.tournamentService.listTournaments();
+  }
+
+  /**
+   * Gets a tournament with its bracket
+   */
+  @Get(':id')
+  getTournament(@Param('id') id: string): Tournament {
+    return this.requireTournament(id);
+  }
+
+  /**
+   * Closes registration and starts the first round
+   */
+  @Post(':id/start')
+  startTournament(@Param('id') id: string): Tournament {
+    this.requireTournament(id);
+    try {
+      return this.tournamentService.start(id);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+  }
+
+  /**
+   * Gets a tournament or responds with 404
+   */
+  private requireTournament(id: string): Tournament {
+    const tournament = this.tournamentService.getTournament(id);
+    if (!tournament) {
+      throw new NotFoundException(`Tournament ${id} not found`);
+    }
+    return tournament;
+  }
+}
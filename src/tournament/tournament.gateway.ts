@@ -0,0 +1,175 @@
+import {
+  OnGatewayInit,
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+import { TournamentService } from './tournament.service';
+import { Tournament } from './entities/tournament.entity';
+import { getPlayerId } from '../session/player-id';
+
+/**
+ * Gateway for signing up to tournaments and following their brackets
+ */
+@WebSocketGateway({
+  cors: {
+    origin: '*', // In production, replace with actual frontend URL
+  },
+})
+export class TournamentGateway implements OnGatewayInit {
+  @WebSocketServer() server: Server;
+
+  constructor(private readonly tournamentService: TournamentService) {}
+
+  /**
+   * Relays bracket updates to everyone following a tournament, and moves
+   * players into the room of their next match
+   */
+  afterInit(): void {
+    this.tournamentService.events$.subscribe((event) => {
+      if (event.type === 'matchReady') {
+        const { match, tournament } = event;
+        match.playerIds.forEach((playerId) => {
+          this.server.in(playerId).socketsJoin(match.roomCode);
+          this.server.to(playerId).emit('tournament:matchReady', {
+            event: 'tournament:matchReady',
+            data: {
+              tournamentId: tournament.id,
+              match,
+              opponent: tournament.participants.find(
+                (p) => match.playerIds.includes(p.id) && p.id !== playerId,
+              ),
+            },
+          });
+        });
+        return;
+      }
+
+      this.emitUpdated(event.tournament);
+    });
+  }
+
+  /**
+   * Registers the client for a tournament
+   * @param client - Socket client instance
+   * @param payload - Tournament ID and nickname
+   */
+  @SubscribeMessage('tournament:register')
+  async handleRegister(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        tournamentId: string;
+        nickname: string;
+      };
+    },
+  ): Promise<void> {
+    const { tournamentId, nickname } = payload.data;
+    let tournament: Tournament;
+    try {
+      tournament = this.tournamentService.register(
+        tournamentId,
+        getPlayerId(client),
+        nickname,
+      );
+    } catch (error) {
+      client.emit('tournament:error', {
+        event: 'tournament:error',
+        data: { message: error.message },
+      });
+      return;
+    }
+
+    // The other followers already got the update
+    await client.join(this.getChannel(tournament.id));
+    client.emit('tournament:updated', {
+      event: 'tournament:updated',
+      data: tournament,
+    });
+  }
+
+  /**
+   * Sends the client the bracket and every later update of it
+   * @param client - Socket client instance
+   * @param payload - Tournament ID
+   */
+  @SubscribeMessage('tournament:watch')
+  async handleWatch(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        tournamentId: string;
+      };
+    },
+  ): Promise<void> {
+    const tournament = this.tournamentService.getTournament(
+      payload.data.tournamentId,
+    );
+    if (!tournament) {
+      client.emit('tournament:error', {
+        event: 'tournament:error',
+        data: { message: 'Tournament not found' },
+      });
+      return;
+    }
+
+    await client.join(this.getChannel(tournament.id));
+    client.emit('tournament:updated', {
+      event: 'tournament:updated',
+      data: tournament,
+    });
+  }
+
+  /**
+   * Withdraws the client from the rest of a tournament
+   * @param client - Socket client instance
+   * @param payload - Tournament ID
+   */
+  @SubscribeMessage('tournament:forfeit')
+  handleForfeit(
+    @ConnectedSocket() client: Socket,
+    @MessageBody()
+    payload: {
+      event: string;
+      data: {
+        tournamentId: string;
+      };
+    },
+  ): void {
+    try {
+      this.tournamentService.forfeit(
+        payload.data.tournamentId,
+        getPlayerId(client),
+      );
+    } catch (error) {
+      client.emit('tournament:error', {
+        event: 'tournament:error',
+        data: { message: error.message },
+      });
+    }
+  }
+
+  /**
+   * Sends the bracket to everyone following a tournament
+   */
+  private emitUpdated(tournament: Tournament): void {
+    this.server.to(this.getChannel(tournament.id)).emit('tournament:updated', {
+      event: 'tournament:updated',
+      data: tournament,
+    });
+  }
+
+  /**
+   * Gets the socket.io room of a tournament's followers
+   */
+  private getChannel(tournamentId: string): string {
+    return `tournament:${tournamentId}`;
+  }
+}
@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TournamentService } from './tournament.service';
+import { TournamentGateway } from './tournament.gateway';
+import { TournamentController } from './tournament.controller';
+import { RoomsModule } from '../rooms/rooms.module';
+import { GameModule } from '../game/game.module';
+
+/**
+ * Module for elimination tournaments played across game rooms
+ */
+@Module({
+  imports: [RoomsModule, GameModule],
+  controllers: [TournamentController],
+  providers: [TournamentService, TournamentGateway],
+})
+export class TournamentModule {}
@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Subject } from 'rxjs';
+import { TournamentService } from './tournament.service';
+import { RoomsService } from '../rooms/rooms.service';
+import { GameService } from '../game/game.service';
+import { CustomDeckService } from '../deck/custom-deck.service';
+import { RandomService } from '../random/random.service';
+import { GameEvent, GameState } from '../game/entities/game.entity';
+import {
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+} from './entities/tournament.entity';
+
+describe('TournamentService', () => {
+  let app: TestingModule;
+  let tournamentService: TournamentService;
+  let gameEvents: Subject<GameEvent>;
+  let gameService: {
+    events$: Subject<GameEvent>;
+    createGame: jest.Mock;
+    getWinners: jest.Mock;
+    forfeitGame: jest.Mock;
+  };
+
+  // Lets the games of newly started matches get created
+  const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+  const createTournament = (
+    format: TournamentFormat,
+    playerIds: string[],
+  ): Tournament => {
+    const tournament = tournamentService.createTournament('Bug Hunt', format);
+    playerIds.forEach((id) =>
+      tournamentService.register(tournament.id, id, id.toUpperCase()),
+    );
+    return tournament;
+  };
+
+  const getMatch = (tournament: Tournament, id: string): TournamentMatch =>
+    tournament.matches.find((match) => match.id === id);
+
+  const finishGame = async (
+    match: TournamentMatch,
+    winnerId: string | null,
+  ) => {
+    gameService.getWinners.mockReturnValueOnce({
+      winners: winnerId
+        ? [{ id: winnerId }]
+        : match.playerIds.map((id) => ({ id })),
+      isTie: !winnerId,
+    });
+    gameEvents.next({
+      type: 'gameOver',
+      gameState: { gameId: match.gameId } as GameState,
+      reason: 'completed',
+    });
+    await flush();
+  };
+
+  beforeEach(async () => {
+    let gamesCreated = 0;
+    gameEvents = new Subject<GameEvent>();
+    gameService = {
+      events$: gameEvents,
+      createGame: jest.fn(async () => ({ gameId: `game${++gamesCreated}` })),
+      getWinners: jest.fn(),
+      forfeitGame: jest.fn(),
+    };
+
+    app = await Test.createTestingModule({
+      providers: [
+        TournamentService,
+        RoomsService,
+        RandomService,
+        { provide: CustomDeckService, useValue: {} },
+        { provide: GameService, useValue: gameService },
+      ],
+    }).compile();
+    await app.init();
+
+    tournamentService = app.get<TournamentService>(TournamentService);
+  });
+
+  afterEach(async () => {
+    await app.close();
+    jest.useRealTimers();
+  });
+
+  it('should give the top seed a bye and crown the winner of the final', async () => {
+    const tournament = createTournament('single', ['ann', 'bea', 'cat']);
+
+    tournamentService.start(tournament.id);
+    await flush();
+
+    expect(getMatch(tournament, 'W1-1')).toMatchObject({
+      playerIds: ['ann', null],
+      status: 'finished',
+      winnerId: 'ann',
+      isBye: true,
+    });
+    const semi = getMatch(tournament, 'W1-2');
+    expect(semi).toMatchObject({
+      playerIds: ['bea', 'cat'],
+      status: 'playing',
+      gameId: 'game1',
+    });
+    expect(semi.roomCode).toBeDefined();
+
+    await finishGame(semi, 'cat');
+    const final = getMatch(tournament, 'W2-1');
+    expect(final).toMatchObject({
+      playerIds: ['ann', 'cat'],
+      status: 'playing',
+    });
+    expect(final.roomCode).not.toBe(semi.roomCode);
+
+    await finishGame(final, 'ann');
+    expect(tournament.status).toBe('finished');
+    expect(tournament.championId).toBe('ann');
+  });
+
+  it('should send losers to the losers bracket and replay the grand final when its champion wins', async () => {
+    const tournament = createTournament('double', ['ann', 'bea', 'cat', 'dan']);
+    tournamentService.start(tournament.id);
+    await flush();
+    expect(tournament.matches.map((match) => match.id)).toEqual([
+      'W1-1',
+      'W1-2',
+      'W2-1',
+      'GF1-1',
+      'L1-1',
+      'L2-1',
+    ]);
+
+    await finishGame(getMatch(tournament, 'W1-1'), 'ann');
+    await finishGame(getMatch(tournament, 'W1-2'), 'bea');
+    expect(getMatch(tournament, 'L1-1').playerIds).toEqual(['dan', 'cat']);
+
+    await finishGame(getMatch(tournament, 'L1-1'), 'cat');
+    await finishGame(getMatch(tournament, 'W2-1'), 'bea');
+    expect(getMatch(tournament, 'L2-1').playerIds).toEqual(['cat', 'ann']);
+
+    await finishGame(getMatch(tournament, 'L2-1'), 'ann');
+    expect(getMatch(tournament, 'GF1-1').playerIds).toEqual(['bea', 'ann']);
+
+    await finishGame(getMatch(tournament, 'GF1-1'), 'ann');
+    expect(tournament.status).toBe('running');
+    const decider = getMatch(tournament, 'GF2-1');
+    expect(decider).toMatchObject({
+      playerIds: ['bea', 'ann'],
+      status: 'playing',
+    });
+
+    await finishGame(decider, 'ann');
+    expect(tournament.championId).toBe('ann');
+  });
+
+  it('should replay a tied match in the same room', async () => {
+    const tournament = createTournament('single', ['ann', 'bea']);
+    tournamentService.start(tournament.id);
+    await flush();
+    const final = getMatch(tournament, 'W1-1');
+    const { roomCode } = final;
+
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    await finishGame(final, null);
+    expect(gameService.createGame).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(3000);
+    await flush();
+
+    expect(gameService.createGame).toHaveBeenCalledTimes(2);
+    expect(gameService.createGame).toHaveBeenLastCalledWith(
+      roomCode,
+      expect.any(Array),
+      expect.any(Object),
+    );
+    expect(final.gameId).toBe('game2');
+  });
+
+  it('should retry a match whose game cannot be dealt, then give it to the top seed', async () => {
+    gameService.createGame.mockRejectedValue(new Error('No pairs'));
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    const tournament = createTournament('single', ['ann', 'bea']);
+    tournamentService.start(tournament.id);
+    await flush();
+    const final = getMatch(tournament, 'W1-1');
+    expect(final.status).toBe('playing');
+
+    jest.advanceTimersByTime(3000);
+    await flush();
+    expect(gameService.createGame).toHaveBeenCalledTimes(2);
+    expect(final.status).toBe('playing');
+
+    jest.advanceTimersByTime(3000);
+    await flush();
+
+    expect(gameService.createGame).toHaveBeenCalledTimes(3);
+    expect(final).toMatchObject({
+      status: 'finished',
+      winnerId: 'ann',
+      isBye: true,
+    });
+    expect(tournament.championId).toBe('ann');
+  });
+
+  it('should advance the opponent of a player who forfeits', async () => {
+    const tournament = createTournament('single', ['ann', 'bea', 'cat']);
+    tournamentService.start(tournament.id);
+    await flush();
+
+    // Ann is waiting for the final, which Bea now wins without playing
+    tournamentService.forfeit(tournament.id, 'ann');
+    await finishGame(getMatch(tournament, 'W1-2'), 'bea');
+
+    expect(getMatch(tournament, 'W2-1')).toMatchObject({
+      status: 'finished',
+      winnerId: 'bea',
+      isBye: true,
+    });
+    expect(tournament.championId).toBe('bea');
+    expect(gameService.createGame).toHaveBeenCalledTimes(1);
+  });
+
+  it('should forfeit the running game of a player who withdraws', async () => {
+    const tournament = createTournament('single', ['ann', 'bea']);
+    tournamentService.start(tournament.id);
+    await flush();
+    gameService.forfeitGame.mockReturnValue({});
+
+    tournamentService.forfeit(tournament.id, 'bea');
+
+    expect(gameService.forfeitGame).toHaveBeenCalledWith('game1', 'bea');
+    expect(() => tournamentService.forfeit(tournament.id, 'bea')).toThrow(
+      'Already withdrawn',
+    );
+  });
+});
@@ -0,0 +1,595 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { Observable, Subject, Subscription } from 'rxjs';
+import { v4 as uuidv4 } from 'uuid';
+import { GameService } from '../game/game.service';
+import { GameEvent } from '../game/entities/game.entity';
+import { RoomsService } from '../rooms/rooms.service';
+import {
+  BracketSide,
+  MatchSlotRef,
+  Tournament,
+  TournamentEvent,
+  TournamentFormat,
+  TournamentMatch,
+} from './entities/tournament.entity';
+
+/**
+ * Smallest number of players a tournament can start with
+ */
+export const MIN_PARTICIPANTS = 2;
+
+/**
+ * Formats a tournament can be played in
+ */
+const TOURNAMENT_FORMATS: TournamentFormat[] = ['single', 'double'];
+
+/**
+ * Service running elimination tournaments. Every match is played in its own
+ * room, and the bracket moves on whenever one of those games is over.
+ */
+@Injectable()
+export class TournamentService implements OnModuleInit, OnModuleDestroy {
+  private readonly TIE_REPLAY_DELAY_MS = 3000; // Pause before replaying a tie
+  private readonly MAX_START_ATTEMPTS = 3; // Tries at dealing a match's game
+
+  private tournaments: Map<string, Tournament> = new Map();
+  // Keyed by `${tournamentId}:${matchId}`
+  private replayTimers: Map<string, NodeJS.Timeout> = new Map();
+  // Failed tries at dealing a match's game, keyed like the replay timers
+  private startFailures: Map<string, number> = new Map();
+  private subscription: Subscription;
+  private readonly events = new Subject<TournamentEvent>();
+
+  /**
+   * Everything that happens in tournaments, in order
+   */
+  readonly events$: Observable<TournamentEvent> = this.events.asObservable();
+
+  constructor(
+    private readonly roomsService: RoomsService,
+    private readonly gameService: GameService,
+  ) {}
+
+  /**
+   * Starts following the games of tournament matches
+   */
+  onModuleInit(): void {
+    this.subscription = this.gameService.events$.subscribe((event) =>
+      this.handleGameEvent(event),
+    );
+  }
+
+  /**
+   * Stops all timers when the application shuts down
+   */
+  onModuleDestroy(): void {
+    this.subscription?.unsubscribe();
+    this.replayTimers.forEach((timer) => clearTimeout(timer));
+    this.replayTimers.clear();
+    this.startFailures.clear();
+    this.events.complete();
+  }
+
+  /**
+   * Opens a tournament for registration
+   * @param name - Display name of the tournament
+   * @param format - Single or double elimination
+   * @returns The created tournament
+   * @throws Error if the format is unknown
+   */
+  createTournament(name: string, format: TournamentFormat): Tournament {
+    if (!TOURNAMENT_FORMATS.includes(format)) {
+      throw new Error(`Unknown tournament format: ${format}`);
+    }
+
+    const tournament: Tournament = {
+      id: uuidv4(),
+      name: name?.trim() || 'Bug Hunt Tournament',
+      format,
+      status: 'registration',
+      participants: [],
+      matches: [],
+      createdAt: Date.now(),
+    };
+
+    this.tournaments.set(tournament.id, tournament);
+    return tournament;
+  }
+
+  /**
+   * Lists all tournaments, newest first
+   */
+  listTournaments(): Tournament[] {
+    return [...this.tournaments.values()].sort(
+      (a, b) => b.createdAt - a.createdAt,
+    );
+  }
+
+  /**
+   * Retrieves a tournament by its ID
+   * @param id - ID of the tournament
+   * @returns The tournament or null if not found
+   */
+  getTournament(id: string): Tournament | null {
+    return this.tournaments.get(id) || null;
+  }
+
+  /**
+   * Registers a player. Players are seeded in the order they register.
+   * @param id - ID of the tournament
+   * @param playerId - ID of the player
+   * @param nickname - Nickname of the player
+   * @returns The updated tournament
+   * @throws Error if the player cannot register
+   */
+  register(id: string, playerId: string, nickname: string): Tournament {
+    const tournament = this.requireTournament(id);
+    if (tournament.status !== 'registration') {
+      throw new Error('Registration is closed');
+    }
+
+    const name = nickname?.trim();
+    if (!name) throw new Error('A nickname is required');
+    if (tournament.participants.some((p) => p.id === playerId)) {
+      throw new Error('Already registered');
+    }
+    if (
+      tournament.participants.some(
+        (p) => p.nickname.toLowerCase() === name.toLowerCase(),
+      )
+    ) {
+      throw new Error(`Nickname ${name} is already taken`);
+    }
+
+    tournament.participants.push({
+      id: playerId,
+      nickname: name,
+      seed: tournament.participants.length + 1,
+      withdrawn: false,
+    });
+    this.events.next({ type: 'updated', tournament });
+    return tournament;
+  }
+
+  /**
+   * Closes registration, seeds the bracket and starts the first matches
+   * @param id - ID of the tournament
+   * @returns The updated tournament
+   * @throws Error if the tournament cannot start
+   */
+  start(id: string): Tournament {
+    const tournament = this.requireTournament(id);
+    if (tournament.status !== 'registration') {
+      throw new Error('The tournament has already started');
+    }
+    if (tournament.participants.length < MIN_PARTICIPANTS) {
+      throw new Error(`Need at least ${MIN_PARTICIPANTS} players to start`);
+    }
+
+    tournament.status = 'running';
+    tournament.matches = this.buildBracket(tournament);
+    tournament.matches
+      .filter((match) => match.pendingSlots === 0)
+      .forEach((match) => this.resolveMatch(tournament, match));
+
+    this.events.next({ type: 'updated', tournament });
+    return tournament;
+  }
+
+  /**
+   * Withdraws a player from the rest of a tournament. A running game of the
+   * player is forfeited; later opponents advance without playing.
+   * @param id - ID of the tournament
+   * @param playerId - ID of the player
+   * @returns The updated tournament
+   * @throws Error if the player is not in the running tournament
+   */
+  forfeit(id: string, playerId: string): Tournament {
+    const tournament = this.requireTournament(id);
+    const participant = tournament.participants.find((p) => p.id === playerId);
+    if (tournament.status !== 'running' || !participant) {
+      throw new Error('Not playing in this tournament');
+    }
+    if (participant.withdrawn) throw new Error('Already withdrawn');
+
+    participant.withdrawn = true;
+
+    // The game over event moves the bracket on
+    const match = tournament.matches.find(
+      (m) => m.status === 'playing' && m.playerIds.includes(playerId),
+    );
+    if (match?.gameId && this.gameService.forfeitGame(match.gameId, playerId)) {
+      return tournament;
+    }
+
+    // Between games, the opponent wins right away
+    if (match) {
+      this.cancelReplay(tournament, match);
+      this.finishMatch(
+        tournament,
+        match,
+        match.playerIds.find((playerId) => playerId !== participant.id),
+      );
+    }
+    this.events.next({ type: 'updated', tournament });
+    return tournament;
+  }
+
+  /**
+   * Moves the bracket on when the game of a match is over
+   */
+  private handleGameEvent(event: GameEvent): void {
+    if (event.type !== 'gameOver') return;
+
+    const { gameId } = event.gameState;
+    for (const tournament of this.tournaments.values()) {
+      const match = tournament.matches.find(
+        (m) => m.status === 'playing' && m.gameId === gameId,
+      );
+      if (!match) continue;
+
+      // A player who lost their connection is out of the tournament
+      if (event.reason === 'disconnect') {
+        const participant = tournament.participants.find(
+          (p) => p.id === event.gameState.forfeitedBy,
+        );
+        if (participant) participant.withdrawn = true;
+      }
+
+      const result = this.gameService.getWinners(gameId);
+      const winnerId =
+        result && !result.isTie ? result.winners[0]?.id : undefined;
+
+      if (winnerId) {
+        this.finishMatch(tournament, match, winnerId);
+      } else {
+        // A knockout match needs a winner, so ties are played again
+        this.scheduleReplay(tournament, match);
+      }
+      this.events.next({ type: 'updated', tournament });
+      return;
+    }
+  }
+
+  /**
+   * Creates every match of the bracket and links them together. The bracket
+   * is sized to the next power of two, and the top seeds get the byes.
+   */
+  private buildBracket(tournament: Tournament): TournamentMatch[] {
+    const size = 2 ** Math.ceil(Math.log2(tournament.participants.length));
+    const rounds = Math.log2(size);
+    const matches = new Map<string, TournamentMatch>();
+
+    const add = (side: BracketSide, round: number, index: number) => {
+      const match: TournamentMatch = {
+        id: this.matchId(side, round, index),
+        side,
+        round,
+        status: 'pending',
+        playerIds: [null, null],
+        pendingSlots: 2,
+      };
+      matches.set(match.id, match);
+      return match;
+    };
+    const ref = (
+      side: BracketSide,
+      round: number,
+      index: number,
+      slot: number,
+    ): MatchSlotRef => ({ matchId: this.matchId(side, round, index), slot });
+
+    // Winners bracket: the winner of match i moves to match i / 2
+    for (let round = 1; round <= rounds; round++) {
+      for (let index = 0; index < size / 2 ** round; index++) {
+        const match = add('winners', round, index);
+        if (round < rounds) {
+          match.winnerTo = ref('winners', round + 1, index >> 1, index % 2);
+        }
+      }
+    }
+
+    // First round: seeds beyond the number of players are byes
+    const order = this.seedOrder(size);
+    for (let index = 0; index < size / 2; index++) {
+      const match = matches.get(this.matchId('winners', 1, index));
+      match.playerIds = [order[index * 2], order[index * 2 + 1]].map(
+        (seed) => tournament.participants[seed - 1]?.id ?? null,
+      ) as [string | null, string | null];
+      match.pendingSlots = 0;
+    }
+
+    if (tournament.format === 'double') {
+      this.addLosersBracket(matches, add, ref, rounds, size);
+    }
+
+    return [...matches.values()];
+  }
+
+  /**
+   * Adds the losers bracket and the grand final of a double elimination.
+   * Odd losers rounds pair up the survivors; even rounds bring in the
+   * players who just lost in the winners bracket.
+   */
+  private addLosersBracket(
+    matches: Map<string, TournamentMatch>,
+    add: (side: BracketSide, round: number, index: number) => TournamentMatch,
+    ref: (
+      side: BracketSide,
+      round: number,
+      index: number,
+      slot: number,
+    ) => MatchSlotRef,
+    rounds: number,
+    size: number,
+  ): void {
+    const losersRounds = 2 * (rounds - 1);
+    add('grandFinal', 1, 0);
+
+    for (let round = 1; round <= losersRounds; round++) {
+      const count =
+        round % 2 === 1
+          ? size / 2 ** ((round - 1) / 2 + 2)
+          : size / 2 ** (round / 2 + 1);
+      for (let index = 0; index < count; index++) {
+        const match = add('losers', round, index);
+        if (round === losersRounds) {
+          match.winnerTo = ref('grandFinal', 1, 0, 1);
+        } else if (round % 2 === 1) {
+          match.winnerTo = ref('losers', round + 1, index, 0);
+        } else {
+          match.winnerTo = ref('losers', round + 1, index >> 1, index % 2);
+        }
+      }
+    }
+
+    // Players who lose in the winners bracket drop to the losers bracket
+    for (let round = 1; round <= rounds; round++) {
+      for (let index = 0; index < size / 2 ** round; index++) {
+        const match = matches.get(this.matchId('winners', round, index));
+        if (round === rounds) {
+          match.winnerTo = ref('grandFinal', 1, 0, 0);
+        }
+
+        if (losersRounds === 0) {
+          match.loserTo = ref('grandFinal', 1, 0, 1);
+        } else if (round === 1) {
+          match.loserTo = ref('losers', 1, index >> 1, index % 2);
+        } else {
+          match.loserTo = ref('losers', 2 * (round - 1), index, 1);
+        }
+      }
+    }
+  }
+
+  /**
+   * Plays a match whose players are known, or decides it right away when
+   * fewer than two of them are still in the tournament
+   */
+  private resolveMatch(tournament: Tournament, match: TournamentMatch): void {
+    const present = match.playerIds.filter(
+      (playerId) => playerId && !this.isWithdrawn(tournament, playerId),
+    );
+
+    if (present.length === 2) {
+      void this.startMatch(tournament, match);
+      return;
+    }
+
+    match.isBye = true;
+    this.finishMatch(tournament, match, present[0] ?? null);
+  }
+
+  /**
+   * Records the result of a match and sends its players on to their next
+   * matches
+   */
+  private finishMatch(
+    tournament: Tournament,
+    match: TournamentMatch,
+    winnerId: string | null,
+  ): void {
+    match.status = 'finished';
+    match.winnerId = winnerId;
+    const loserId = match.playerIds.find(
+      (playerId) => playerId && playerId !== winnerId,
+    );
+    const loserStaysIn = loserId && !this.isWithdrawn(tournament, loserId);
+
+    // The winners bracket champion has to lose twice: a first loss in the
+    // grand final means a deciding match
+    if (
+      match.side === 'grandFinal' &&
+      match.round === 1 &&
+      !match.isBye &&
+      winnerId === match.playerIds[1] &&
+      loserStaysIn
+    ) {
+      const decider: TournamentMatch = {
+        id: this.matchId('grandFinal', 2, 0),
+        side: 'grandFinal',
+        round: 2,
+        status: 'pending',
+        playerIds: [...match.playerIds],
+        pendingSlots: 0,
+        roomCode: match.roomCode,
+      };
+      tournament.matches.push(decider);
+      this.resolveMatch(tournament, decider);
+      return;
+    }
+
+    if (match.loserTo) {
+      this.fillSlot(tournament, match.loserTo, loserStaysIn ? loserId : null);
+    }
+
+    if (match.winnerTo) {
+      this.fillSlot(tournament, match.winnerTo, winnerId);
+    } else {
+      tournament.status = 'finished';
+      tournament.championId = winnerId;
+    }
+  }
+
+  /**
+   * Puts a player, or nobody, into a slot of a later match, and plays that
+   * match once both of its slots are filled
+   */
+  private fillSlot(
+    tournament: Tournament,
+    ref: MatchSlotRef,
+    playerId: string | null,
+  ): void {
+    const match = tournament.matches.find((m) => m.id === ref.matchId);
+    match.playerIds[ref.slot] = playerId;
+    match.pendingSlots--;
+
+    if (match.pendingSlots === 0) {
+      this.resolveMatch(tournament, match);
+    }
+  }
+
+  /**
+   * Starts the game of a match in its own room, reusing the room when the
+   * match is replayed
+   */
+  private async startMatch(
+    tournament: Tournament,
+    match: TournamentMatch,
+  ): Promise<void> {
+    const players = match.playerIds.map((playerId) =>
+      tournament.participants.find((p) => p.id === playerId),
+    );
+
+    // Replays stay in the same room while both players are still there
+    let room = match.roomCode && this.roomsService.getRoom(match.roomCode);
+    if (!room || players.some((player) => !room.players[player.id])) {
+      room = this.roomsService.createRoom(
+        players[0].id,
+        players[0].nickname,
+        { isPrivate: true },
+        2,
+      );
+      this.roomsService.joinRoom(
+        room.roomCode,
+        players[1].id,
+        players[1].nickname,
+      );
+      match.roomCode = room.roomCode;
+    }
+
+    // Players are moved into the room before the game starts
+    match.status = 'playing';
+    this.events.next({ type: 'matchReady', tournament, match });
+
+    try {
+      const gameState = await this.gameService.createGame(
+        room.roomCode,
+        players.map(({ id, nickname }) => ({ id, nickname })),
+        this.roomsService.getGameConfig(room),
+      );
+      match.gameId = gameState.gameId;
+      this.startFailures.delete(`${tournament.id}:${match.id}`);
+      this.roomsService.startGame(room.roomCode, gameState.gameId);
+    } catch (error) {
+      console.error(`Failed to start tournament match ${match.id}:`, error);
+      this.handleStartFailure(tournament, match);
+    }
+    this.events.next({ type: 'updated', tournament });
+  }
+
+  /**
+   * Tries a match whose game could not be dealt again after a pause. Once
+   * every try has failed, the higher seed goes through, so the bracket never
+   * waits on the match forever.
+   */
+  private handleStartFailure(
+    tournament: Tournament,
+    match: TournamentMatch,
+  ): void {
+    // Decided while the game was being dealt, e.g. by a forfeit
+    if (match.status !== 'playing') return;
+
+    const key = `${tournament.id}:${match.id}`;
+    const failures = (this.startFailures.get(key) ?? 0) + 1;
+    if (failures < this.MAX_START_ATTEMPTS) {
+      this.startFailures.set(key, failures);
+      this.scheduleReplay(tournament, match);
+      return;
+    }
+
+    this.startFailures.delete(key);
+    const [topSeed] = match.playerIds
+      .map((playerId) => tournament.participants.find((p) => p.id === playerId))
+      .sort((a, b) => a.seed - b.seed);
+    console.warn(
+      `Tournament match ${match.id} could not be played; ${topSeed.nickname} goes through`,
+    );
+    match.isBye = true;
+    this.finishMatch(tournament, match, topSeed.id);
+  }
+
+  /**
+   * Plays a match again after a short pause: after a tie, or after its game
+   * could not be dealt
+   */
+  private scheduleReplay(tournament: Tournament, match: TournamentMatch): void {
+    const key = `${tournament.id}:${match.id}`;
+    this.replayTimers.set(
+      key,
+      setTimeout(() => {
+        this.replayTimers.delete(key);
+        if (match.status === 'playing') {
+          void this.startMatch(tournament, match);
+        }
+      }, this.TIE_REPLAY_DELAY_MS),
+    );
+  }
+
+  /**
+   * Cancels the pending replay of a tied match
+   */
+  private cancelReplay(tournament: Tournament, match: TournamentMatch): void {
+    const key = `${tournament.id}:${match.id}`;
+    clearTimeout(this.replayTimers.get(key));
+    this.replayTimers.delete(key);
+  }
+
+  /**
+   * Orders seeds so that the top seeds meet as late as possible:
+   * 1 v 8, 4 v 5, 2 v 7, 3 v 6 for eight players
+   */
+  private seedOrder(size: number): number[] {
+    let order = [1];
+    while (order.length < size) {
+      const total = order.length * 2 + 1;
+      order = order.flatMap((seed) => [seed, total - seed]);
+    }
+    return order;
+  }
+
+  /**
+   * Builds the ID of a match from its place in the bracket
+   */
+  private matchId(side: BracketSide, round: number, index: number): string {
+    const prefix = { winners: 'W', losers: 'L', grandFinal: 'GF' }[side];
+    return `${prefix}${round}-${index + 1}`;
+  }
+
+  /**
+   * Checks whether a player withdrew from a tournament
+   */
+  private isWithdrawn(tournament: Tournament, playerId: string): boolean {
+    return !!tournament.participants.find((p) => p.id === playerId)?.withdrawn;
+  }
+
+  /**
+   * Gets a tournament or fails
+   * @throws Error if the tournament does not exist
+   */
+  private requireTournament(id: string): Tournament {
+    const tournament = this.tournaments.get(id);
+    if (!tournament) throw new Error(`Tournament ${id} not found`);
+    return tournament;
+  }
+}